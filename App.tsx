@@ -1,67 +1,436 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { extractTextFromPDF } from './services/pdfService';
-import { generateMindMap } from './services/geminiService';
-import { MindMapData, ProcessingStatus, TabMode } from './types';
+import { generateMindMap, generateSubtree } from './services/geminiService';
+import { createLLMProvider } from './services/providers';
+import { LANGUAGE_PROFILES, getLanguageProfile, loadOutputLanguage, saveOutputLanguage } from './services/languageService';
+import { getPaperId, getPaperMetadata, openPaper, savePaper, titleFromFileName, updatePaperData, updatePaperMetadata } from './services/libraryService';
+import { importMindMapJSON } from './services/exportService';
+import { getCachedAnalysis, putCachedAnalysis } from './services/cacheService';
+import { applyMindMapEdit } from './services/mindMapEditor';
+import { compareAnnotations, createAnnotation, deleteAnnotation, downloadAnnotations, listAnnotations, saveAnnotation } from './services/annotationService';
+import { extractReferences } from './services/referenceService';
+import { searchAll } from './services/searchService';
+import { loadOcrLanguage } from './services/ocrService';
+import { ActiveSearchHit, Annotation, AnnotationDraft, ExtractedDocument, MindMapData, MindMapEdit, MindMapNode, OutputLanguage, PaperFigure, PaperMetadata, SubtreeMode, ProcessingStatus, TabMode, WorkspaceKind } from './types';
 import FileUpload from './components/FileUpload';
+import LibraryView from './components/LibraryView';
+import SettingsPanel from './components/SettingsPanel';
+import ExportMenu from './components/ExportMenu';
+import ChatView from './components/ChatView';
+import AnnotationsPanel from './components/AnnotationsPanel';
+import ComparisonView from './components/ComparisonView';
+import ConceptGraphView from './components/ConceptGraphView';
+import ReferencesView from './components/ReferencesView';
+import FiguresView from './components/FiguresView';
+import CitationDialog from './components/CitationDialog';
+import SearchBox from './components/SearchBox';
 import MindMapGraph from './components/MindMapGraph';
 import PDFViewer from './components/PDFViewer';
 import OutlineView from './components/OutlineView';
 import SummaryView from './components/SummaryView';
 import ReportView from './components/ReportView';
-import { Maximize2, Minimize2, BrainCircuit, RefreshCw, Layout, List, FileText, FlaskConical } from 'lucide-react';
+import { Maximize2, Minimize2, BrainCircuit, RefreshCw, Layout, List, FileText, FlaskConical, BookOpenCheck, Languages, Settings, RotateCcw, FileJson, MessageSquare, ShieldCheck, Undo2, Redo2, Columns3, Share2, BookMarked, Quote, Images } from 'lucide-react';
+
+// Undo steps kept for manual mind map edits
+const MAX_UNDO_STEPS = 50;
 
 const App: React.FC = () => {
   const [file, setFile] = useState<File | null>(null);
   const [mindMapData, setMindMapData] = useState<MindMapData | null>(null);
+  const [extractedDoc, setExtractedDoc] = useState<ExtractedDocument | null>(null);
+  const [documentId, setDocumentId] = useState<string | null>(null); // Library id (content hash)
+  const [paperTitle, setPaperTitle] = useState('');
   const [status, setStatus] = useState<ProcessingStatus>({ step: 'idle' });
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [activeQuote, setActiveQuote] = useState<string | undefined>(undefined);
+  const [focusedFigure, setFocusedFigure] = useState<PaperFigure | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [focusedAnnotationId, setFocusedAnnotationId] = useState<string | null>(null);
+  const [history, setHistory] = useState<{ past: MindMapData[]; future: MindMapData[] }>({ past: [], future: [] });
+  const [refiningNodeId, setRefiningNodeId] = useState<string | null>(null);
+  // The refinement in flight; replaced or cleared when another paper is opened, so a late answer is dropped
+  const refineRequestRef = useRef<{ paperId: string | null; nodeId: string } | null>(null);
+  // Bibliographic record of the open paper, stored in the library next to its analysis
+  const [metadata, setMetadata] = useState<PaperMetadata | null>(null);
+  const [isMetadataLoading, setIsMetadataLoading] = useState(false); // The stored record hasn't been read yet
+  const [isCitationOpen, setIsCitationOpen] = useState(false);
+  // Multi-paper workspace (comparison or concept graph); kept while a paper is opened from it so the user can go back
+  const [workspace, setWorkspace] = useState<{ kind: WorkspaceKind; paperIds: string[] } | null>(null);
+  const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
+  // Search box query and the match the user stepped to
+  const [searchQuery, setSearchQuery] = useState('');
+  const [activeSearchHit, setActiveSearchHit] = useState<ActiveSearchHit | null>(null);
   
   // Tab State - Default to 'abstract' (formerly summary)
   const [activeTab, setActiveTab] = useState<TabMode>('abstract');
 
-  const handleFileSelect = async (selectedFile: File) => {
+  // LLM backend selected via LLM_PROVIDER (gemini | openai | fixture)
+  const provider = useMemo(() => createLLMProvider(), []);
+  // Parsed from the text on demand; cheap enough not to store
+  const referenceIndex = useMemo(() => extractedDoc ? extractReferences(extractedDoc.pages) : null, [extractedDoc]);
+  const figures = useMemo(() => extractedDoc?.figures || [], [extractedDoc]);
+
+  // A focused figure belongs to the document it was found in
+  useEffect(() => {
+    setFocusedFigure(null);
+  }, [extractedDoc]);
+
+  const searchResults = useMemo(
+    () => searchAll(extractedDoc?.pages || [], mindMapData?.root, searchQuery),
+    [extractedDoc, mindMapData?.root, searchQuery]
+  );
+  const activeSearchNodeId = activeSearchHit?.kind === 'node' ? activeSearchHit.hit.nodeId : null;
+  const nodeSearch = useMemo(
+    () => searchResults.nodeHits.length > 0 ? { matchIds: new Set(searchResults.nodeHits.map(hit => hit.nodeId)), focusedId: activeSearchNodeId } : null,
+    [searchResults, activeSearchNodeId]
+  );
+
+  // Stepping starts over whenever the matches change
+  useEffect(() => {
+    setActiveSearchHit(null);
+  }, [searchResults]);
+
+  // Output language for summaries, labels and reports (persisted in localStorage)
+  const [language, setLanguage] = useState<OutputLanguage>(loadOutputLanguage);
+
+  const handleLanguageChange = (next: OutputLanguage) => {
+    setLanguage(next);
+    saveOutputLanguage(next);
+  };
+
+  // bypassCache is set by "Re-analyze" to force a fresh LLM call
+  const handleFileSelect = async (selectedFile: File, bypassCache: boolean = false) => {
     setFile(selectedFile);
+    setPaperTitle(titleFromFileName(selectedFile.name));
     setStatus({ step: 'extracting', message: 'Reading PDF contents...' });
     setMindMapData(null); // Reset previous data
+    setExtractedDoc(null);
+    setDocumentId(null);
+    resetHistory();
+    cancelRefinement();
 
     try {
+      // 0. Identical PDF + settings analyzed before? Reuse the stored result
+      const paperId = await getPaperId(selectedFile);
+      setDocumentId(paperId); // Lets the user annotate while the analysis is still running
+      const ocrLanguage = loadOcrLanguage();
+      const cacheLookup = { paperId, provider, language, ocrLanguage };
+
+      // Hand-edited maps live in the library; prefer them over the untouched cached analysis,
+      // and never replace them (re-analysis, another output language) without asking
+      const stored = await openPaper(paperId).catch(() => null);
+      if (stored?.data.editedAt) {
+        const storedLanguage = getLanguageProfile(stored.data.language);
+        const keepEdits = (!bypassCache && storedLanguage.id === language) || !confirm(bypassCache
+          ? 'Re-analyzing replaces your manual edits to the mind map. Continue?'
+          : `You edited the ${storedLanguage.label} mind map of this paper. Analyzing it in ${getLanguageProfile(language).label} replaces those edits. Continue?\n\nCancel opens your edited map instead.`);
+        if (keepEdits) {
+          await showAnalysis(selectedFile, stored.document, stored.data);
+          return;
+        }
+      }
+
+      if (!bypassCache) {
+        const cached = await getCachedAnalysis(cacheLookup).catch((cacheError) => {
+          console.warn("Analysis cache unavailable:", cacheError);
+          return null;
+        });
+        if (cached) {
+          await showAnalysis(selectedFile, cached.document, cached.data);
+          return;
+        }
+      }
+
       // 1. Extract Text
-      const text = await extractTextFromPDF(selectedFile);
+      const doc = await extractTextFromPDF(selectedFile, (pagesExtracted, totalPages, pagesRecognized) => setStatus({
+        step: 'extracting',
+        message: pagesRecognized > 0 ? `Recognizing text on scanned pages (${pagesRecognized} so far)...` : 'Reading PDF contents...',
+        progress: { pagesExtracted, totalPages }
+      }), ocrLanguage);
       
-      // 2. Analyze with Gemini
-      setStatus({ step: 'analyzing', message: 'Gemini is analyzing structure & generating research ideas...' });
-      const data = await generateMindMap(text);
-      
-      setMindMapData(data);
+      // 2. Analyze with the configured LLM provider, rendering nodes as they stream in
+      const extractionProgress = { pagesExtracted: doc.pages.length, totalPages: doc.numPages };
+      setStatus({ step: 'analyzing', message: `${provider.label} is analyzing structure & generating research ideas...`, progress: extractionProgress });
+      setActiveTab('abstract');
+      const data = await generateMindMap(doc, {
+        provider,
+        language,
+        onProgress: (message, progress) => setStatus({ step: 'analyzing', message, progress: { ...extractionProgress, ...progress } }),
+        onPartialResult: setMindMapData
+      });
+
+      putCachedAnalysis(cacheLookup, doc, data).catch((cacheError) => {
+        console.warn("Could not cache analysis:", cacheError);
+      });
+      await showAnalysis(selectedFile, doc, data);
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const showAnalysis = async (selectedFile: File, doc: ExtractedDocument, data: MindMapData) => {
+    setMindMapData(data);
+    setExtractedDoc(doc);
+    setStatus({ step: 'complete' });
+    setActiveTab('abstract'); // Default to Abstract view
+
+    // Keep it in the local library; a storage failure must not lose the analysis
+    try {
+      setDocumentId(await savePaper(selectedFile, doc, data));
+    } catch (storageError) {
+      console.warn("Could not save paper to library:", storageError);
+    }
+  };
+
+  // Reopen a stored paper without calling the LLM again, optionally jumping to a cited passage
+  const handleOpenFromLibrary = async (id: string, pageNumber: number = 1, quote?: string) => {
+    setIsWorkspaceOpen(false);
+    setStatus({ step: 'extracting', message: 'Opening paper from library...' });
+    try {
+      const opened = await openPaper(id);
+      resetHistory();
+      cancelRefinement();
+      setFile(opened.file);
+      setPaperTitle(opened.paper.title);
+      setMindMapData(opened.data);
+      setExtractedDoc(opened.document);
+      setDocumentId(opened.paper.id);
+      setCurrentPage(pageNumber);
+      setActiveQuote(quote);
       setStatus({ step: 'complete' });
-      setActiveTab('abstract'); // Default to Abstract view
+      setActiveTab('abstract');
     } catch (error: any) {
-      console.error("App Error:", error);
-      let errorMsg = 'Failed to process document. Please try again.';
-      if (error instanceof Error) {
-        errorMsg = error.message;
-      } else if (typeof error === 'string') {
-        errorMsg = error;
-      }
-      
-      setStatus({ 
-        step: 'error', 
-        message: errorMsg
+      showError(error);
+    }
+  };
+
+  // Reopen an exported analysis without the PDF or the API
+  const handleImportJSON = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!selected) return;
+    try {
+      const imported = importMindMapJSON(await selected.text());
+      resetHistory();
+      cancelRefinement();
+      setFile(null);
+      setExtractedDoc(null);
+      setDocumentId(null);
+      setPaperTitle(imported.title);
+      setMindMapData(imported.data);
+      setCurrentPage(1);
+      setActiveQuote(undefined);
+      setStatus({ step: 'complete' });
+      setActiveTab('abstract');
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  // Annotations belong to the PDF, so they follow the library id
+  useEffect(() => {
+    setAnnotations([]);
+    setFocusedAnnotationId(null);
+    if (!documentId) return;
+    let cancelled = false;
+    listAnnotations(documentId)
+      .then(stored => { if (!cancelled) setAnnotations(stored); })
+      .catch((storageError) => console.warn("Could not load annotations:", storageError));
+    return () => { cancelled = true; };
+  }, [documentId]);
+
+  useEffect(() => {
+    setMetadata(null);
+    setIsMetadataLoading(!!documentId);
+    if (!documentId) return;
+    let cancelled = false;
+    getPaperMetadata(documentId)
+      .then(stored => { if (!cancelled) setMetadata(stored); })
+      .catch((storageError) => console.warn("Could not load paper metadata:", storageError))
+      .finally(() => { if (!cancelled) setIsMetadataLoading(false); });
+    return () => { cancelled = true; };
+  }, [documentId]);
+
+  const handleSaveMetadata = (next: PaperMetadata) => {
+    setMetadata(next);
+    setPaperTitle(next.title);
+    if (documentId) {
+      updatePaperMetadata(documentId, next).catch((storageError) => console.warn("Could not save paper metadata:", storageError));
+    }
+  };
+
+  const handleCreateAnnotation = (draft: AnnotationDraft, withNote: boolean) => {
+    if (!documentId) return;
+    const annotation = createAnnotation(documentId, draft);
+    setAnnotations(prev => [...prev, annotation].sort(compareAnnotations));
+    saveAnnotation(annotation).catch((storageError) => console.warn("Could not save annotation:", storageError));
+    if (withNote) {
+      setIsNotesOpen(true);
+      setFocusedAnnotationId(annotation.id);
+    }
+  };
+
+  const handleUpdateAnnotation = (annotation: Annotation) => {
+    const updated = { ...annotation, updatedAt: Date.now() };
+    setAnnotations(prev => prev.map(a => a.id === updated.id ? updated : a));
+    saveAnnotation(updated).catch((storageError) => console.warn("Could not save annotation:", storageError));
+  };
+
+  const handleDeleteAnnotation = (id: string) => {
+    setAnnotations(prev => prev.filter(a => a.id !== id));
+    deleteAnnotation(id).catch((storageError) => console.warn("Could not delete annotation:", storageError));
+  };
+
+  const handleSelectAnnotation = (annotation: Annotation) => {
+    setFocusedAnnotationId(annotation.id);
+    setCurrentPage(annotation.pageNumber);
+    setActiveQuote(undefined);
+    setFocusedFigure(null);
+  };
+
+  const handleAnnotationClick = (id: string) => {
+    setIsNotesOpen(true);
+    setFocusedAnnotationId(id);
+  };
+
+  // --- Manual edits with undo/redo ---
+  const resetHistory = () => setHistory({ past: [], future: [] });
+
+  const commitMindMapData = (data: MindMapData) => {
+    setMindMapData(data);
+    if (documentId) {
+      updatePaperData(documentId, data).catch((storageError) => console.warn("Could not save edits:", storageError));
+    }
+  };
+
+  const handleEdit = (edit: MindMapEdit) => {
+    if (!mindMapData || refiningNodeId) return;
+    const next = applyMindMapEdit(mindMapData, edit);
+    if (next === mindMapData) return;
+    setHistory(h => ({ past: [...h.past, mindMapData].slice(-MAX_UNDO_STEPS), future: [] }));
+    commitMindMapData(next);
+  };
+
+  const handleUndo = () => {
+    const previous = history.past[history.past.length - 1];
+    if (!previous || !mindMapData || refiningNodeId) return;
+    setHistory({ past: history.past.slice(0, -1), future: [mindMapData, ...history.future] });
+    commitMindMapData(previous);
+  };
+
+  const handleRedo = () => {
+    const [next, ...rest] = history.future;
+    if (!next || !mindMapData || refiningNodeId) return;
+    setHistory({ past: [...history.past, mindMapData], future: rest });
+    commitMindMapData(next);
+  };
+
+  // Ask the model again for one node; other edits wait so the result can't overwrite them
+  const handleRefineNode = async (node: MindMapNode, mode: SubtreeMode) => {
+    if (!mindMapData || !extractedDoc || refiningNodeId) return;
+    const request = { paperId: documentId, nodeId: node.id };
+    refineRequestRef.current = request;
+    setRefiningNodeId(node.id);
+    try {
+      const refined = await generateSubtree(extractedDoc, mindMapData.root, node.id, mode, {
+        provider,
+        language: mindMapData.language || language
       });
+      // The user opened another paper meanwhile; this answer belongs to a map that is no longer shown
+      if (refineRequestRef.current !== request) return;
+      const next = applyMindMapEdit(mindMapData, { type: 'replace', id: node.id, node: refined });
+      setHistory(h => ({ past: [...h.past, mindMapData].slice(-MAX_UNDO_STEPS), future: [] }));
+      commitMindMapData(next);
+    } catch (error: any) {
+      if (refineRequestRef.current !== request) return;
+      console.error("Subtree Error:", error);
+      alert(error.message || 'Failed to regenerate this node.');
+    } finally {
+      if (refineRequestRef.current === request) {
+        refineRequestRef.current = null;
+        setRefiningNodeId(null);
+      }
     }
   };
 
+  // Called whenever another paper replaces the open one
+  const cancelRefinement = () => {
+    refineRequestRef.current = null;
+    setRefiningNodeId(null);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep their own undo
+  useEffect(() => {
+    if (status.step !== 'complete') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const showError = (error: any) => {
+    console.error("App Error:", error);
+    let errorMsg = 'Failed to process document. Please try again.';
+    if (error instanceof Error) {
+      errorMsg = error.message;
+    } else if (typeof error === 'string') {
+      errorMsg = error;
+    }
+
+    setStatus({
+      step: 'error',
+      message: errorMsg
+    });
+  };
+
   const handleNodeClick = (pageNumber: number, quote?: string) => {
     setCurrentPage(pageNumber);
     setActiveQuote(quote);
+    setFocusedFigure(null);
+    if (!isSidebarOpen) setIsSidebarOpen(true);
+  };
+
+  const handleFigureClick = (figure: PaperFigure) => {
+    setCurrentPage(figure.pageNumber);
+    setActiveQuote(undefined);
+    setFocusedFigure(figure);
     if (!isSidebarOpen) setIsSidebarOpen(true);
   };
 
+  const handleSelectSearchHit = (selected: ActiveSearchHit) => {
+    setActiveSearchHit(selected);
+    if (selected.kind === 'node') {
+      handleNodeClick(selected.hit.pageNumber, selected.hit.quote);
+      if (activeTab !== 'map' && activeTab !== 'outline') setActiveTab('map');
+    } else {
+      setCurrentPage(selected.hit.pageNumber);
+      setActiveQuote(undefined);
+      setFocusedFigure(null);
+      if (!isSidebarOpen) setIsSidebarOpen(true);
+    }
+  };
+
   const handleReset = () => {
+    resetHistory();
+    cancelRefinement();
     setFile(null);
     setMindMapData(null);
+    setExtractedDoc(null);
+    setDocumentId(null);
     setStatus({ step: 'idle' });
     setActiveQuote(undefined);
   };
@@ -80,10 +449,65 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex items-center gap-4">
+            {mindMapData && (status.step === 'complete' || status.step === 'analyzing') && (
+              <SearchBox
+                key={documentId || paperTitle}
+                results={searchResults}
+                activeHit={activeSearchHit}
+                hasText={!!extractedDoc}
+                onQueryChange={setSearchQuery}
+                onSelectHit={handleSelectSearchHit}
+              />
+            )}
+            <label className="flex items-center gap-1.5 text-xs text-slate-500" title="Output language for new analyses">
+                <Languages className="w-3.5 h-3.5" />
+                <select
+                    value={language}
+                    onChange={(e) => handleLanguageChange(e.target.value as OutputLanguage)}
+                    disabled={status.step === 'extracting' || status.step === 'analyzing'}
+                    className="bg-transparent border border-slate-200 rounded-md px-1.5 py-1 text-xs text-slate-600 focus:outline-none focus:border-indigo-400"
+                >
+                    {LANGUAGE_PROFILES.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.label}</option>
+                    ))}
+                </select>
+            </label>
             {status.step === 'idle' && (
                <div className="text-sm text-slate-500 hidden sm:block">
-                 Powered by Gemini 2.5 Flash
+                 Powered by {provider.label}
                </div>
+            )}
+            {status.step === 'complete' && file && (
+              <button
+                onClick={() => handleFileSelect(file, true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                title="Run the analysis again, ignoring the cache"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                Re-analyze
+              </button>
+            )}
+            {status.step === 'complete' && mindMapData && (
+              <ExportMenu data={mindMapData} title={paperTitle || 'Untitled Paper'} />
+            )}
+            {status.step === 'complete' && (
+              <button
+                onClick={() => setIsCitationOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+                title="Citation metadata, BibTeX and CSL-JSON"
+              >
+                <Quote className="w-3.5 h-3.5" />
+                Cite
+              </button>
+            )}
+            {workspace && !isWorkspaceOpen && (
+              <button
+                onClick={() => setIsWorkspaceOpen(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+              >
+                {workspace.kind === 'compare' ? <Columns3 className="w-3.5 h-3.5" /> : <Share2 className="w-3.5 h-3.5" />}
+                Back to {workspace.kind === 'compare' ? 'comparison' : 'concept graph'}
+              </button>
             )}
              {status.step === 'complete' && (
               <button 
@@ -94,34 +518,100 @@ const App: React.FC = () => {
                 Analyze New Paper
               </button>
             )}
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+              title="Settings"
+            >
+              <Settings className="w-4 h-4" />
+            </button>
         </div>
       </header>
 
+      {isSettingsOpen && <SettingsPanel provider={provider} onClose={() => setIsSettingsOpen(false)} />}
+      {isCitationOpen && (
+        <CitationDialog
+          key={documentId || 'unsaved'}
+          metadata={metadata}
+          isMetadataLoading={isMetadataLoading}
+          document={extractedDoc}
+          fileTitle={paperTitle}
+          provider={provider}
+          onSave={handleSaveMetadata}
+          onClose={() => setIsCitationOpen(false)}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 flex overflow-hidden relative">
+
+        {/* Multi-paper workspace, on top of whatever was open before */}
+        {isWorkspaceOpen && workspace && (
+          <div className="absolute inset-0 z-30">
+            {workspace.kind === 'compare' ? (
+              <ComparisonView
+                paperIds={workspace.paperIds}
+                provider={provider}
+                language={language}
+                onOpenSource={handleOpenFromLibrary}
+                onClose={() => { setIsWorkspaceOpen(false); setWorkspace(null); }}
+              />
+            ) : (
+              <ConceptGraphView
+                paperIds={workspace.paperIds}
+                provider={provider}
+                onOpenSource={handleOpenFromLibrary}
+                onClose={() => { setIsWorkspaceOpen(false); setWorkspace(null); }}
+              />
+            )}
+          </div>
+        )}
         
         {/* State: IDLE - Upload Screen */}
         {status.step === 'idle' && (
-          <div className="absolute inset-0 z-20 bg-slate-50 flex items-center justify-center p-4">
-            <div className="max-w-xl w-full">
+          <div className="absolute inset-0 z-20 bg-slate-50 flex items-start justify-center p-4 overflow-y-auto">
+            <div className="max-w-xl w-full my-auto py-8">
                 <div className="text-center mb-8">
                   <h2 className="text-3xl font-bold text-slate-800 mb-3">Understand Papers Faster</h2>
                   <p className="text-slate-600">
-                    Upload a PDF to generate a Chinese summary, interactive mind map, and research ideas.
+                    Upload a PDF to generate a summary ({getLanguageProfile(language).label}), interactive mind map, and research ideas.
                   </p>
                 </div>
-                <FileUpload onFileSelect={handleFileSelect} isProcessing={false} />
+                <FileUpload onFileSelect={(selected) => handleFileSelect(selected)} isProcessing={false} />
+                <div className="text-center mt-3">
+                    <label className="inline-flex items-center gap-1.5 text-xs text-slate-500 hover:text-indigo-600 cursor-pointer">
+                        <FileJson className="w-3.5 h-3.5" />
+                        or open a ScholarMind JSON export
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={handleImportJSON} />
+                    </label>
+                </div>
+                <LibraryView
+                    onOpen={(id) => handleOpenFromLibrary(id)}
+                    onOpenWorkspace={(kind, paperIds) => { setWorkspace({ kind, paperIds }); setIsWorkspaceOpen(true); }}
+                />
             </div>
           </div>
         )}
 
-        {/* State: PROCESSING - Overlay */}
-        {(status.step === 'extracting' || status.step === 'analyzing') && (
+        {/* State: PROCESSING - Overlay (until the first streamed results arrive) */}
+        {(status.step === 'extracting' || (status.step === 'analyzing' && !mindMapData)) && (
            <div className="absolute inset-0 z-50 bg-white/90 backdrop-blur-sm flex items-center justify-center">
-             <div className="text-center">
+             <div className="text-center w-80">
                 <div className="w-16 h-16 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mx-auto mb-4"></div>
                 <h3 className="text-xl font-semibold text-slate-800 animate-pulse">{status.message}</h3>
-                <p className="text-slate-500 mt-2 text-sm">This may take up to 30 seconds for large papers.</p>
+                {status.progress?.totalPages ? (
+                    <div className="mt-4">
+                        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-indigo-500 transition-all"
+                                style={{ width: `${Math.round(((status.progress.pagesExtracted || 0) / status.progress.totalPages) * 100)}%` }}
+                            />
+                        </div>
+                        <p className="text-slate-500 mt-2 text-sm">
+                            {status.progress.pagesExtracted || 0} / {status.progress.totalPages} pages extracted
+                        </p>
+                    </div>
+                ) : null}
              </div>
            </div>
         )}
@@ -142,8 +632,8 @@ const App: React.FC = () => {
             </div>
         )}
 
-        {/* State: COMPLETE (Split View) */}
-        {file && status.step === 'complete' && (
+        {/* State: COMPLETE (Split View), also shown while nodes are still streaming in */}
+        {mindMapData && (status.step === 'complete' || status.step === 'analyzing') && (
             <>
                 {/* Left Panel: PDF Viewer */}
                 <div 
@@ -161,7 +651,34 @@ const App: React.FC = () => {
                                 <Minimize2 className="w-4 h-4" />
                             </button>
                             {/* Pass currentPage as the initial scroll target */}
-                            <PDFViewer file={file} currentPage={currentPage} highlightText={activeQuote} />
+                            <PDFViewer
+                                file={file}
+                                currentPage={currentPage}
+                                highlightText={activeQuote}
+                                annotations={annotations}
+                                focusedAnnotationId={focusedAnnotationId}
+                                onCreateAnnotation={documentId ? handleCreateAnnotation : undefined}
+                                onAnnotationClick={handleAnnotationClick}
+                                onToggleAnnotations={documentId ? () => setIsNotesOpen(open => !open) : undefined}
+                                focusedFigure={focusedFigure}
+                                ocrPages={extractedDoc?.ocrPages}
+                                searchTerm={searchResults.pageHits.length > 0 ? searchResults.query : undefined}
+                                activeSearchHit={activeSearchHit?.kind === 'page' ? activeSearchHit.hit : null}
+                            />
+                            {isNotesOpen && documentId && (
+                                <div className="absolute top-12 right-0 bottom-0 w-80 max-w-full z-30">
+                                    <AnnotationsPanel
+                                        annotations={annotations}
+                                        data={mindMapData}
+                                        focusedId={focusedAnnotationId}
+                                        onSelect={handleSelectAnnotation}
+                                        onUpdate={handleUpdateAnnotation}
+                                        onDelete={handleDeleteAnnotation}
+                                        onExport={(format) => downloadAnnotations(format, annotations, paperTitle, mindMapData)}
+                                        onClose={() => setIsNotesOpen(false)}
+                                    />
+                                </div>
+                            )}
                          </>
                     ) : (
                         <div 
@@ -180,6 +697,17 @@ const App: React.FC = () => {
 
                 {/* Right Panel: Content (Abstract / Map / Outline / Research) */}
                 <div className="flex-1 bg-slate-50 flex flex-col relative z-10">
+
+                    {status.step === 'analyzing' && (
+                        <div className="bg-indigo-50 border-b border-indigo-100 px-4 py-1.5 flex items-center gap-3 text-xs text-indigo-700 shrink-0">
+                            <div className="w-3.5 h-3.5 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin shrink-0"></div>
+                            <span className="truncate flex-1">{status.message}</span>
+                            {status.progress?.totalChunks && (
+                                <span className="whitespace-nowrap">Part {status.progress.chunk} / {status.progress.totalChunks}</span>
+                            )}
+                            <span className="whitespace-nowrap font-medium">{status.progress?.nodesReceived || 0} nodes</span>
+                        </div>
+                    )}
                     
                     {/* Tab Navigation */}
                     <div className="bg-white border-b border-slate-200 px-4 flex items-center gap-1 shrink-0 h-10 overflow-x-auto no-scrollbar">
@@ -207,6 +735,57 @@ const App: React.FC = () => {
                         >
                             <FlaskConical className="w-4 h-4" /> Research Ideas
                         </button>
+                        <button
+                            onClick={() => setActiveTab('ask')}
+                            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'ask' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                        >
+                            <MessageSquare className="w-4 h-4" /> Ask
+                        </button>
+                        <button
+                            onClick={() => setActiveTab('references')}
+                            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'references' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                        >
+                            <BookMarked className="w-4 h-4" /> References
+                        </button>
+                        <button
+                            onClick={() => setActiveTab('figures')}
+                            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${activeTab === 'figures' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+                        >
+                            <Images className="w-4 h-4" /> Figures
+                        </button>
+
+                        <div className="ml-auto flex items-center gap-2">
+                            {status.step === 'complete' && (
+                                <div className="flex items-center">
+                                    <button onClick={handleUndo} disabled={history.past.length === 0} className="p-1.5 rounded text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent" title="Undo edit (Ctrl+Z)">
+                                        <Undo2 className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={handleRedo} disabled={history.future.length === 0} className="p-1.5 rounded text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent" title="Redo edit (Ctrl+Shift+Z)">
+                                        <Redo2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            )}
+                            {mindMapData?.verification && mindMapData.verification.checked > 0 && (
+                                <div
+                                    className={`flex items-center gap-1 text-[11px] px-2 py-0.5 rounded whitespace-nowrap ${mindMapData.verification.unverified > 0 ? 'bg-amber-50 text-amber-700' : 'bg-emerald-50 text-emerald-700'}`}
+                                    title={`${mindMapData.verification.corrected} page number(s) corrected, ${mindMapData.verification.unverified} quote(s) not found in the text`}
+                                >
+                                    <ShieldCheck className="w-3.5 h-3.5" />
+                                    {mindMapData.verification.checked - mindMapData.verification.unverified} / {mindMapData.verification.checked} quotes verified
+                                </div>
+                            )}
+                            {mindMapData?.coverage && (
+                                <div
+                                    className={`flex items-center gap-1 text-[11px] px-2 py-0.5 rounded whitespace-nowrap ${mindMapData.coverage.analyzedPages < mindMapData.coverage.totalPages ? 'bg-amber-50 text-amber-700' : 'bg-slate-100 text-slate-500'}`}
+                                    title={mindMapData.coverage.analyzedPages < mindMapData.coverage.totalPages
+                                        ? 'Some pages had no extractable text and were not analyzed'
+                                        : `Analyzed in ${mindMapData.coverage.chunks} part(s)`}
+                                >
+                                    <BookOpenCheck className="w-3.5 h-3.5" />
+                                    {mindMapData.coverage.analyzedPages} / {mindMapData.coverage.totalPages} pages analyzed
+                                </div>
+                            )}
+                        </div>
                     </div>
 
                     {/* View Content */}
@@ -218,20 +797,65 @@ const App: React.FC = () => {
                                 </div>
 
                                 <div className={`w-full h-full ${activeTab === 'map' ? 'block' : 'hidden'}`}>
-                                    <MindMapGraph data={mindMapData} onNodeClick={handleNodeClick} />
+                                    <MindMapGraph
+                                        key={documentId || paperTitle}
+                                        data={mindMapData}
+                                        onNodeClick={handleNodeClick}
+                                        onEdit={status.step === 'complete' ? handleEdit : undefined}
+                                        onRefine={status.step === 'complete' && extractedDoc ? handleRefineNode : undefined}
+                                        refiningNodeId={refiningNodeId}
+                                        title={paperTitle}
+                                        figures={figures}
+                                        onFigureClick={handleFigureClick}
+                                        search={nodeSearch}
+                                    />
                                     <div className="absolute bottom-4 right-4 bg-white/90 backdrop-blur p-3 rounded-lg shadow-sm border border-slate-200 text-xs text-slate-500 max-w-xs pointer-events-none">
                                         <div className="font-semibold text-slate-700 mb-1">Interactive Map</div>
-                                        Click nodes to sync PDF.
+                                        Click nodes to sync PDF. Hover a node to edit, collapse or focus on it, or drop it onto another node to move it there.
                                     </div>
                                 </div>
                                 
                                 <div className={`w-full h-full ${activeTab === 'outline' ? 'block' : 'hidden'}`}>
-                                    <OutlineView data={mindMapData} onNodeClick={handleNodeClick} />
+                                    <OutlineView
+                                        data={mindMapData}
+                                        onNodeClick={handleNodeClick}
+                                        onEdit={status.step === 'complete' ? handleEdit : undefined}
+                                        onRefine={status.step === 'complete' && extractedDoc ? handleRefineNode : undefined}
+                                        refiningNodeId={refiningNodeId}
+                                        figures={figures}
+                                        onFigureClick={handleFigureClick}
+                                        search={nodeSearch}
+                                    />
                                 </div>
                                 
                                 <div className={`w-full h-full ${activeTab === 'report' ? 'block' : 'hidden'}`}>
                                     <ReportView data={mindMapData} />
                                 </div>
+
+                                <div className={`w-full h-full ${activeTab === 'ask' ? 'block' : 'hidden'}`}>
+                                    <ChatView
+                                        key={documentId || paperTitle}
+                                        document={extractedDoc}
+                                        provider={provider}
+                                        language={language}
+                                        onCitationClick={handleNodeClick}
+                                    />
+                                </div>
+
+                                <div className={`w-full h-full ${activeTab === 'references' ? 'block' : 'hidden'}`}>
+                                    <ReferencesView index={referenceIndex} root={mindMapData.root} onNavigate={handleNodeClick} />
+                                </div>
+
+                                <div className={`w-full h-full ${activeTab === 'figures' ? 'block' : 'hidden'}`}>
+                                    <FiguresView
+                                        key={documentId || paperTitle}
+                                        figures={figures}
+                                        file={file}
+                                        root={mindMapData.root}
+                                        onFigureClick={handleFigureClick}
+                                        onNodeClick={handleNodeClick}
+                                    />
+                                </div>
                             </>
                         ) : (
                             <div className="w-full h-full flex items-center justify-center text-slate-400">
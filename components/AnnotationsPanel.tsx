@@ -0,0 +1,99 @@
+import React, { useEffect, useRef } from 'react';
+import { X, Highlighter, Trash2, FileText, Braces, Link2 } from 'lucide-react';
+import { Annotation, MindMapData } from '../types';
+import { AnnotationExportFormat } from '../services/annotationService';
+import { flattenNodes } from '../services/mindMapTree';
+
+interface AnnotationsPanelProps {
+  annotations: Annotation[];
+  data: MindMapData | null; // Nodes offered for linking
+  focusedId: string | null;
+  onSelect: (annotation: Annotation) => void;
+  onUpdate: (annotation: Annotation) => void;
+  onDelete: (id: string) => void;
+  onExport: (format: AnnotationExportFormat) => void;
+  onClose: () => void;
+}
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({ annotations, data, focusedId, onSelect, onUpdate, onDelete, onExport, onClose }) => {
+  const itemRefs = useRef(new Map<string, HTMLDivElement>());
+  const nodes = data ? flattenNodes(data.root).filter(node => node.id !== 'root-synthetic') : [];
+
+  // Bring the annotation clicked in the PDF into view
+  useEffect(() => {
+    if (focusedId) itemRefs.current.get(focusedId)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [focusedId]);
+
+  return (
+    <div className="h-full flex flex-col bg-white border-l border-slate-200 shadow-xl">
+      <div className="h-11 flex items-center gap-2 px-3 border-b border-slate-200 shrink-0">
+        <Highlighter className="w-4 h-4 text-indigo-600" />
+        <span className="text-sm font-semibold text-slate-800 flex-1">Notes & Highlights</span>
+        <button onClick={() => onExport('markdown')} disabled={annotations.length === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Export as Markdown">
+          <FileText className="w-4 h-4" />
+        </button>
+        <button onClick={() => onExport('json')} disabled={annotations.length === 0} className="p-1 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Export as JSON">
+          <Braces className="w-4 h-4" />
+        </button>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {annotations.length === 0 && (
+          <div className="text-xs text-slate-400 text-center py-8 px-4">
+            Select text in the PDF to highlight it or attach a note.
+          </div>
+        )}
+
+        {annotations.map(annotation => (
+          <div
+            key={annotation.id}
+            ref={el => { if (el) itemRefs.current.set(annotation.id, el); else itemRefs.current.delete(annotation.id); }}
+            className={`rounded-lg border p-2.5 text-xs transition-colors ${annotation.id === focusedId ? 'border-indigo-400 bg-indigo-50/40' : 'border-slate-200'}`}
+          >
+            <button onClick={() => onSelect(annotation)} className="w-full text-left flex gap-2 group" title="Show in PDF">
+              <span className="w-1 rounded-full shrink-0" style={{ backgroundColor: annotation.color }} />
+              <span className="flex-1 italic text-slate-600 line-clamp-3 group-hover:text-indigo-700">{annotation.text}</span>
+              <span className="font-mono text-[10px] text-slate-400 shrink-0">p. {annotation.pageNumber}</span>
+            </button>
+
+            <textarea
+              // Remount after each save so the uncontrolled field reflects the stored note
+              key={annotation.updatedAt}
+              defaultValue={annotation.note}
+              autoFocus={annotation.id === focusedId && !annotation.note}
+              onBlur={(e) => {
+                if (e.target.value !== annotation.note) onUpdate({ ...annotation, note: e.target.value });
+              }}
+              placeholder="Add a note..."
+              rows={2}
+              className="mt-2 w-full resize-y rounded border border-slate-200 px-2 py-1 text-xs text-slate-700 focus:outline-none focus:border-indigo-400"
+            />
+
+            <div className="mt-1.5 flex items-center gap-1.5">
+              <Link2 className="w-3 h-3 text-slate-400 shrink-0" />
+              <select
+                value={annotation.nodeId || ''}
+                onChange={(e) => onUpdate({ ...annotation, nodeId: e.target.value || undefined })}
+                className="flex-1 min-w-0 text-[11px] text-slate-600 bg-transparent border border-slate-200 rounded px-1 py-0.5"
+                title="Link to a mind map node"
+              >
+                <option value="">Not linked to a node</option>
+                {nodes.map(node => (
+                  <option key={node.id} value={node.id}>{node.label} (p. {node.pageNumber})</option>
+                ))}
+              </select>
+              <button onClick={() => onDelete(annotation.id)} className="p-1 text-slate-300 hover:text-red-500" title="Delete">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationsPanel;
@@ -0,0 +1,161 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, Quote, User, Sparkles } from 'lucide-react';
+import { ChatMessage, ExtractedDocument, LLMProvider, OutputLanguage } from '../types';
+import { askPaper } from '../services/chatService';
+import VerificationBadge from './VerificationBadge';
+
+interface ChatViewProps {
+  document: ExtractedDocument | null;
+  provider: LLMProvider;
+  language: OutputLanguage;
+  onCitationClick: (pageNumber: number, quote?: string) => void;
+}
+
+const SUGGESTIONS = [
+  'What problem does this paper solve?',
+  'Which datasets and metrics are used?',
+  'What are the main limitations?',
+];
+
+const ChatView: React.FC<ChatViewProps> = ({ document, provider, language, onCitationClick }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isAsking]);
+
+  const handleAsk = async (question: string) => {
+    const trimmed = question.trim();
+    if (!trimmed || !document || isAsking) return;
+
+    const userMessage: ChatMessage = { id: `u-${Date.now()}`, role: 'user', content: trimmed };
+    const history = messages;
+    setMessages(prev => [...prev, userMessage]);
+    setInput('');
+    setError(null);
+    setIsAsking(true);
+
+    try {
+      const answer = await askPaper(document, trimmed, history, { provider, language });
+      setMessages(prev => [...prev, {
+        id: `a-${Date.now()}`,
+        role: 'assistant',
+        content: answer.answer,
+        citations: answer.citations
+      }]);
+    } catch (err: any) {
+      console.error("Chat Error:", err);
+      setError(err.message || 'Failed to answer the question.');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  if (!document) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-400 text-sm p-8 text-center">
+        Questions become available once the paper's text is loaded. JSON exports don't include it, so open the PDF instead.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-2xl mx-auto space-y-4">
+          {messages.length === 0 && (
+            <div className="text-center py-10">
+              <div className="bg-indigo-100 p-3 rounded-full inline-flex mb-3">
+                <MessageSquare className="w-6 h-6 text-indigo-600" />
+              </div>
+              <h2 className="text-lg font-bold text-slate-800">Ask the paper</h2>
+              <p className="text-sm text-slate-500 mb-4">Answers are grounded in the extracted text and cite their pages.</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {SUGGESTIONS.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => handleAsk(suggestion)}
+                    className="text-xs px-3 py-1.5 rounded-full border border-slate-200 text-slate-600 hover:border-indigo-300 hover:text-indigo-600"
+                  >
+                    {suggestion}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {messages.map(message => (
+            <div key={message.id} className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : ''}`}>
+              {message.role === 'assistant' && (
+                <div className="w-7 h-7 rounded-full bg-indigo-100 flex items-center justify-center shrink-0">
+                  <Sparkles className="w-4 h-4 text-indigo-600" />
+                </div>
+              )}
+              <div className={`max-w-[85%] rounded-xl px-4 py-2.5 text-sm ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-50 border border-slate-100 text-slate-700'}`}>
+                <div className="whitespace-pre-wrap leading-relaxed">{message.content}</div>
+
+                {message.citations && message.citations.length > 0 && (
+                  <div className="mt-3 pt-2 border-t border-slate-200 space-y-1.5">
+                    {message.citations.map(citation => (
+                      <button
+                        key={citation.marker}
+                        onClick={() => onCitationClick(citation.pageNumber, citation.quote)}
+                        className="w-full text-left flex items-start gap-2 text-xs text-slate-500 hover:text-indigo-600 group"
+                        title="Show in PDF"
+                      >
+                        <span className="font-mono bg-white border border-slate-200 rounded px-1 shrink-0 group-hover:border-indigo-300">[{citation.marker}] p. {citation.pageNumber}</span>
+                        {citation.verified ? <Quote className="w-3 h-3 mt-0.5 shrink-0" /> : <span className="mt-0.5"><VerificationBadge verified={false} /></span>}
+                        <span className={`line-clamp-2 ${citation.verified ? 'italic' : ''}`}>{citation.quote}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {message.role === 'user' && (
+                <div className="w-7 h-7 rounded-full bg-slate-100 flex items-center justify-center shrink-0">
+                  <User className="w-4 h-4 text-slate-500" />
+                </div>
+              )}
+            </div>
+          ))}
+
+          {isAsking && (
+            <div className="flex items-center gap-2 text-xs text-slate-400 pl-10">
+              <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+              Reading the paper...
+            </div>
+          )}
+          {error && <div className="text-xs text-red-500 pl-10">{error}</div>}
+        </div>
+      </div>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleAsk(input); }}
+        className="border-t border-slate-200 p-3 shrink-0"
+      >
+        <div className="max-w-2xl mx-auto flex items-center gap-2">
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Ask a question about this paper..."
+            className="flex-1 px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-400"
+            disabled={isAsking}
+          />
+          <button
+            type="submit"
+            disabled={isAsking || !input.trim()}
+            className="p-2 rounded-lg bg-indigo-600 text-white disabled:opacity-40 hover:bg-indigo-700 transition-colors"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChatView;
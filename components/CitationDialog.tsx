@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Quote, Copy, Check, Download, RefreshCw } from 'lucide-react';
+import { ExtractedDocument, LLMProvider, PaperMetadata, PublicationType } from '../types';
+import { PUBLICATION_TYPES, downloadCitation, exportMetadataToBibTeX, exportMetadataToCSLJSON, extractPaperMetadata } from '../services/metadataService';
+
+interface CitationDialogProps {
+  metadata: PaperMetadata | null; // Extracted on open when missing
+  isMetadataLoading: boolean; // Until the stored record is read, a null `metadata` doesn't mean it's missing
+  document: ExtractedDocument | null; // Null for imported analyses: the record is then entered by hand
+  fileTitle: string;
+  provider: LLMProvider;
+  onSave: (metadata: PaperMetadata) => void;
+  onClose: () => void;
+}
+
+type CitationFormat = 'bibtex' | 'csl-json';
+
+const CitationDialog: React.FC<CitationDialogProps> = ({ metadata, isMetadataLoading, document, fileTitle, provider, onSave, onClose }) => {
+  const [draft, setDraft] = useState<PaperMetadata | null>(metadata);
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [format, setFormat] = useState<CitationFormat>('bibtex');
+  const [copied, setCopied] = useState(false);
+  const isOpenRef = useRef(true);
+  const hasLoadedRef = useRef(false);
+
+  useEffect(() => () => { isOpenRef.current = false; }, []);
+
+  const extract = async () => {
+    if (!document) return;
+    setIsExtracting(true);
+    const extracted = await extractPaperMetadata(document, fileTitle, { provider });
+    // Closed meanwhile, or remounted for another paper: the result belongs to a record no longer shown
+    if (!isOpenRef.current) return;
+    setIsExtracting(false);
+    setDraft(extracted);
+    // Store what was extracted right away so the model isn't asked again next time
+    onSave(extracted);
+  };
+
+  useEffect(() => {
+    if (isMetadataLoading || hasLoadedRef.current) return;
+    hasLoadedRef.current = true;
+    if (metadata) {
+      setDraft(metadata);
+    } else if (document) {
+      extract();
+    } else {
+      setDraft({ type: 'article', title: fileTitle, authors: [], edited: false });
+    }
+    // Only once the stored record is known: later saves update `metadata` but must not trigger another extraction
+  }, [isMetadataLoading]);
+
+  const update = (changes: Partial<PaperMetadata>) => {
+    setDraft(prev => prev && { ...prev, ...changes });
+  };
+
+  const preview = draft ? (format === 'bibtex' ? exportMetadataToBibTeX(draft) : exportMetadataToCSLJSON(draft)) : '';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preview);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.warn("Clipboard unavailable:", err);
+    }
+  };
+
+  const inputClass = 'w-full border border-slate-200 rounded-md px-2 py-1.5 text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-200';
+  const labelClass = 'block text-[11px] font-bold text-slate-400 uppercase tracking-wider mb-1';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Quote className="w-4 h-4 text-indigo-600" /> Cite this paper
+          </h2>
+          <div className="flex items-center gap-1">
+            {document && (
+              <button
+                onClick={extract}
+                disabled={isExtracting || isMetadataLoading}
+                className="flex items-center gap-1.5 px-2 py-1 text-xs text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md disabled:opacity-40"
+                title="Read the metadata from the paper again, replacing your corrections"
+              >
+                <RefreshCw className="w-3.5 h-3.5" /> Re-extract
+              </button>
+            )}
+            <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {isExtracting || !draft ? (
+          <div className="p-10 flex flex-col items-center gap-3 text-sm text-slate-500">
+            <div className="w-6 h-6 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+            Reading title, authors and venue...
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-5 grid grid-cols-1 md:grid-cols-2 gap-5">
+            <div className="space-y-3">
+              <div>
+                <label className={labelClass}>Type</label>
+                <select value={draft.type} onChange={(e) => update({ type: e.target.value as PublicationType })} className={inputClass}>
+                  {PUBLICATION_TYPES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Title</label>
+                <textarea value={draft.title} onChange={(e) => update({ title: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+              </div>
+              <div>
+                <label className={labelClass}>Authors (one per line)</label>
+                <textarea
+                  value={draft.authors.join('\n')}
+                  onChange={(e) => update({ authors: e.target.value.split('\n') })}
+                  onBlur={() => update({ authors: draft.authors.map(author => author.trim()).filter(Boolean) })}
+                  rows={4}
+                  className={`${inputClass} resize-y`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Venue</label>
+                <input value={draft.venue || ''} onChange={(e) => update({ venue: e.target.value || undefined })} className={inputClass} />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className={labelClass}>Year</label>
+                  <input value={draft.year || ''} onChange={(e) => update({ year: e.target.value || undefined })} className={inputClass} />
+                </div>
+                <div className="col-span-2">
+                  <label className={labelClass}>DOI</label>
+                  <input value={draft.doi || ''} onChange={(e) => update({ doi: e.target.value || undefined })} className={inputClass} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>arXiv ID</label>
+                <input value={draft.arxivId || ''} onChange={(e) => update({ arxivId: e.target.value || undefined })} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="flex flex-col min-h-0">
+              <div className="flex items-center gap-1 mb-2">
+                {(['bibtex', 'csl-json'] as CitationFormat[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setFormat(option)}
+                    className={`px-2.5 py-1 text-xs font-medium rounded-md ${format === option ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-50'}`}
+                  >
+                    {option === 'bibtex' ? 'BibTeX' : 'CSL-JSON'}
+                  </button>
+                ))}
+                <button onClick={handleCopy} className="ml-auto p-1.5 rounded text-slate-500 hover:text-indigo-600 hover:bg-indigo-50" title="Copy">
+                  {copied ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Copy className="w-3.5 h-3.5" />}
+                </button>
+                <button onClick={() => downloadCitation(format, draft)} className="p-1.5 rounded text-slate-500 hover:text-indigo-600 hover:bg-indigo-50" title="Download">
+                  <Download className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <pre className="flex-1 min-h-[200px] bg-slate-50 border border-slate-100 rounded-lg p-3 text-[11px] text-slate-700 font-mono whitespace-pre-wrap break-all overflow-auto">{preview}</pre>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button onClick={onClose} className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md">Close</button>
+          <button
+            onClick={() => { if (draft) { onSave({ ...draft, authors: draft.authors.map(a => a.trim()).filter(Boolean), edited: true }); onClose(); } }}
+            disabled={!draft || isExtracting || !draft.title.trim()}
+            className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CitationDialog;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Columns3, FileText, RefreshCw, Download, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ComparisonColumn, LLMProvider, OutputLanguage } from '../types';
+import { COMPARISON_DIMENSIONS, downloadComparison, loadComparisonColumn } from '../services/comparisonService';
+
+interface ComparisonViewProps {
+  paperIds: string[];
+  provider: LLMProvider;
+  language: OutputLanguage;
+  onOpenSource: (paperId: string, pageNumber?: number, quote?: string) => void;
+  onClose: () => void;
+}
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ paperIds, provider, language, onOpenSource, onClose }) => {
+  const [columns, setColumns] = useState<ComparisonColumn[]>([]);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+
+  // Papers are profiled one after another: parallel requests quickly hit provider rate limits
+  useEffect(() => {
+    let cancelled = false;
+    setColumns(paperIds.map(paperId => ({ paperId, title: '…', numPages: 0, profile: null })));
+
+    const load = async () => {
+      for (const paperId of paperIds) {
+        if (cancelled) return;
+        setLoadingId(paperId);
+        let column: ComparisonColumn;
+        try {
+          column = await loadComparisonColumn(paperId, { provider, language, refresh: refreshToken > 0 });
+        } catch (err: any) {
+          console.error("Comparison Error:", err);
+          column = { paperId, title: paperId.slice(0, 8), numPages: 0, profile: null, error: err.message || 'Could not compare this paper.' };
+        }
+        if (cancelled) return;
+        setColumns(prev => prev.map(c => c.paperId === paperId ? column : c));
+      }
+      setLoadingId(null);
+    };
+    load();
+
+    return () => { cancelled = true; };
+  }, [paperIds, provider, language, refreshToken]);
+
+  const isComplete = !loadingId && columns.some(column => column.profile);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50">
+      <div className="h-14 flex items-center gap-3 px-6 border-b border-slate-200 bg-white shrink-0">
+        <button onClick={onClose} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title="Back">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <Columns3 className="w-5 h-5 text-indigo-600" />
+        <h2 className="font-semibold text-slate-800">Compare {paperIds.length} papers</h2>
+        {loadingId && (
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+            Analyzing {columns.find(c => c.paperId === loadingId)?.title || 'paper'}...
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setRefreshToken(t => t + 1)}
+            disabled={!!loadingId}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md disabled:opacity-40"
+            title="Ask the model again instead of reusing stored answers"
+          >
+            <RefreshCw className="w-3.5 h-3.5" /> Regenerate
+          </button>
+          <button onClick={() => downloadComparison('markdown', columns)} disabled={!isComplete} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md disabled:opacity-40">
+            <Download className="w-3.5 h-3.5" /> Markdown
+          </button>
+          <button onClick={() => downloadComparison('csv', columns)} disabled={!isComplete} className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md disabled:opacity-40">
+            <Download className="w-3.5 h-3.5" /> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-6">
+        <table className="border-separate border-spacing-0 bg-white rounded-xl border border-slate-200 shadow-sm text-sm">
+          <thead>
+            <tr>
+              <th className="sticky left-0 top-0 z-20 bg-slate-50 w-32 border-b border-r border-slate-200 rounded-tl-xl"></th>
+              {columns.map(column => (
+                <th key={column.paperId} className="sticky top-0 z-10 bg-slate-50 min-w-[260px] max-w-[340px] px-4 py-3 text-left align-top border-b border-slate-200">
+                  <button
+                    onClick={() => onOpenSource(column.paperId)}
+                    disabled={!!column.error}
+                    className="flex items-start gap-2 text-left group"
+                    title="Open this paper"
+                  >
+                    <FileText className="w-4 h-4 mt-0.5 text-slate-400 group-hover:text-indigo-500 shrink-0" />
+                    <span className="font-semibold text-slate-800 group-hover:text-indigo-600 line-clamp-2">{column.title}</span>
+                  </button>
+                  {column.profile && (
+                    <div className="text-[10px] font-normal text-slate-400 mt-1 pl-6">{column.numPages} pages · {column.profile.generatedBy}</div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARISON_DIMENSIONS.map(({ id, label, question }) => (
+              <tr key={id}>
+                <th className="sticky left-0 z-10 bg-white px-4 py-3 text-left align-top text-xs font-bold text-slate-500 uppercase tracking-wider border-b border-r border-slate-100" title={question}>
+                  {label}
+                </th>
+                {columns.map(column => {
+                  const cell = column.profile?.cells[id];
+                  return (
+                    <td key={column.paperId} className="px-4 py-3 align-top border-b border-slate-100 text-slate-700 max-w-[340px]">
+                      {cell ? (
+                        <>
+                          <p className="leading-relaxed">{cell.text}</p>
+                          {cell.pageNumber && (
+                            <button
+                              onClick={() => onOpenSource(column.paperId, cell.pageNumber, cell.quote)}
+                              className="mt-1.5 inline-flex items-center gap-1 text-[11px] text-indigo-600 hover:underline"
+                              title={cell.quote}
+                            >
+                              {cell.verified
+                                ? <CheckCircle2 className="w-3 h-3 text-emerald-600" />
+                                : <AlertTriangle className="w-3 h-3 text-amber-500" />}
+                              p. {cell.pageNumber}
+                            </button>
+                          )}
+                        </>
+                      ) : column.error ? (
+                        id === COMPARISON_DIMENSIONS[0].id && <span className="text-xs text-red-500">{column.error}</span>
+                      ) : (
+                        <div className="h-4 bg-slate-100 rounded animate-pulse w-3/4"></div>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
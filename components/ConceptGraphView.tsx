@@ -0,0 +1,276 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactFlow, { Node, Edge, Background, Controls, Handle, Position, NodeProps } from 'reactflow';
+import { ArrowLeft, Share2, FileText, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Concept, ConceptKind, LLMProvider } from '../types';
+import { CONCEPT_KINDS, ConceptSource, buildConcepts, layoutConceptNetwork, loadConceptSource } from '../services/conceptService';
+
+interface ConceptGraphViewProps {
+  paperIds: string[];
+  provider: LLMProvider;
+  onOpenSource: (paperId: string, pageNumber?: number, quote?: string) => void;
+  onClose: () => void;
+}
+
+const KIND_STYLES: Record<ConceptKind, string> = {
+  method: 'bg-sky-50 border-sky-300 text-sky-800',
+  dataset: 'bg-emerald-50 border-emerald-300 text-emerald-800',
+  metric: 'bg-amber-50 border-amber-300 text-amber-800',
+  task: 'bg-rose-50 border-rose-300 text-rose-800',
+  term: 'bg-slate-50 border-slate-300 text-slate-700'
+};
+
+// Edges attach to the node centre, which reads better than top/bottom ports in a network
+const CENTER_HANDLE_STYLE: React.CSSProperties = { top: '50%', left: '50%', opacity: 0, pointerEvents: 'none' };
+
+const CenterHandles = () => (
+  <>
+    <Handle type="target" position={Position.Top} style={CENTER_HANDLE_STYLE} />
+    <Handle type="source" position={Position.Top} style={CENTER_HANDLE_STYLE} />
+  </>
+);
+
+const PaperNode = ({ data }: NodeProps<{ title: string }>) => (
+  <div className="w-48 px-3 py-2 rounded-lg bg-indigo-600 text-white shadow-md flex items-start gap-2 cursor-pointer" title="Open this paper">
+    <CenterHandles />
+    <FileText className="w-4 h-4 mt-0.5 shrink-0 opacity-80" />
+    <span className="text-xs font-semibold leading-snug line-clamp-3">{data.title}</span>
+  </div>
+);
+
+const ConceptNode = ({ data }: NodeProps<{ concept: Concept; isSelected: boolean; isDimmed: boolean }>) => (
+  <div
+    className={`px-2.5 py-1 rounded-full border text-xs font-medium whitespace-nowrap shadow-sm cursor-pointer transition-opacity ${KIND_STYLES[data.concept.kind]} ${data.isSelected ? 'ring-2 ring-indigo-500' : ''} ${data.isDimmed ? 'opacity-30' : ''}`}
+    title={`${data.concept.name} · ${data.concept.mentions.length} paper${data.concept.mentions.length === 1 ? '' : 's'}`}
+  >
+    <CenterHandles />
+    {data.concept.name}
+  </div>
+);
+
+const nodeTypes = { paper: PaperNode, concept: ConceptNode };
+
+const ConceptGraphView: React.FC<ConceptGraphViewProps> = ({ paperIds, provider, onOpenSource, onClose }) => {
+  const [sources, setSources] = useState<ConceptSource[]>([]);
+  const [errors, setErrors] = useState<{ paperId: string; message: string }[]>([]);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [refreshToken, setRefreshToken] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sharedOnly, setSharedOnly] = useState(true);
+  const [hiddenKinds, setHiddenKinds] = useState<ConceptKind[]>([]);
+
+  // Papers are read one after another: parallel requests quickly hit provider rate limits
+  useEffect(() => {
+    let cancelled = false;
+    setSources([]);
+    setErrors([]);
+    setSelectedId(null);
+
+    const load = async () => {
+      for (const paperId of paperIds) {
+        if (cancelled) return;
+        setLoadingId(paperId);
+        try {
+          const source = await loadConceptSource(paperId, { provider, refresh: refreshToken > 0 });
+          if (cancelled) return;
+          setSources(prev => [...prev, source]);
+        } catch (err: any) {
+          console.error("Concept Graph Error:", err);
+          if (cancelled) return;
+          setErrors(prev => [...prev, { paperId, message: err.message || 'Could not read this paper.' }]);
+        }
+      }
+      setLoadingId(null);
+    };
+    load();
+
+    return () => { cancelled = true; };
+  }, [paperIds, provider, refreshToken]);
+
+  const concepts = useMemo(() => buildConcepts(sources), [sources]);
+  const titles = useMemo(() => new Map(sources.map(({ paper }) => [paper.id, paper.title])), [sources]);
+  const visibleConcepts = useMemo(
+    () => concepts.filter(concept => !hiddenKinds.includes(concept.kind) && (!sharedOnly || concept.mentions.length > 1)),
+    [concepts, hiddenKinds, sharedOnly]
+  );
+  const selected = concepts.find(concept => concept.id === selectedId) || null;
+
+  const { nodes, edges } = useMemo(() => {
+    const loadedIds = sources.map(({ paper }) => paper.id);
+    const positions = layoutConceptNetwork(loadedIds, visibleConcepts);
+    const linkedPapers = new Set(selected?.mentions.map(({ paperId }) => paperId));
+
+    const nodes: Node[] = [
+      ...sources.map(({ paper }): Node => ({
+        id: paper.id,
+        type: 'paper',
+        position: positions.get(paper.id)!,
+        data: { title: paper.title },
+        style: { opacity: selected && !linkedPapers.has(paper.id) ? 0.4 : 1 }
+      })),
+      ...visibleConcepts.map((concept): Node => ({
+        id: `concept:${concept.id}`,
+        type: 'concept',
+        position: positions.get(concept.id)!,
+        data: { concept, isSelected: concept.id === selectedId, isDimmed: !!selected && concept.id !== selectedId }
+      }))
+    ];
+
+    const edges: Edge[] = visibleConcepts.flatMap(concept => concept.mentions.map((mention): Edge => {
+      const isActive = concept.id === selectedId;
+      return {
+        id: `${concept.id}->${mention.paperId}`,
+        source: `concept:${concept.id}`,
+        target: mention.paperId,
+        type: 'straight',
+        animated: isActive,
+        zIndex: isActive ? 1 : 0,
+        style: {
+          stroke: isActive ? '#6366f1' : '#cbd5e1',
+          strokeWidth: 1 + Math.min(mention.pages.length, 6) * 0.4,
+          opacity: selected && !isActive ? 0.25 : 1
+        }
+      };
+    }));
+
+    return { nodes, edges };
+  }, [sources, visibleConcepts, selected, selectedId]);
+
+  const handleNodeClick = (_: React.MouseEvent, node: Node) => {
+    if (node.type === 'paper') {
+      onOpenSource(node.id);
+    } else {
+      const conceptId = node.id.slice('concept:'.length);
+      setSelectedId(prev => prev === conceptId ? null : conceptId);
+    }
+  };
+
+  const toggleKind = (kind: ConceptKind) => {
+    setHiddenKinds(prev => prev.includes(kind) ? prev.filter(k => k !== kind) : [...prev, kind]);
+  };
+
+  const sharedCount = concepts.filter(concept => concept.mentions.length > 1).length;
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50">
+      <div className="h-14 flex items-center gap-3 px-6 border-b border-slate-200 bg-white shrink-0">
+        <button onClick={onClose} className="p-1.5 rounded hover:bg-slate-100 text-slate-500" title="Back">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <Share2 className="w-5 h-5 text-indigo-600" />
+        <h2 className="font-semibold text-slate-800">Concepts across {paperIds.length} papers</h2>
+        {loadingId ? (
+          <span className="flex items-center gap-2 text-xs text-slate-500">
+            <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+            Reading paper {sources.length + errors.length + 1} of {paperIds.length}...
+          </span>
+        ) : (
+          <span className="text-xs text-slate-400">{sharedCount} shared · {concepts.length} total</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {CONCEPT_KINDS.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => toggleKind(id)}
+              className={`px-2 py-0.5 rounded-full border text-[11px] font-medium ${hiddenKinds.includes(id) ? 'bg-white border-slate-200 text-slate-400 line-through' : KIND_STYLES[id]}`}
+            >
+              {label}
+            </button>
+          ))}
+          <label className="flex items-center gap-1.5 ml-2 text-xs text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={sharedOnly} onChange={(e) => setSharedOnly(e.target.checked)} className="accent-indigo-600" />
+            Shared only
+          </label>
+          <button
+            onClick={() => setRefreshToken(t => t + 1)}
+            disabled={!!loadingId}
+            className="ml-2 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md disabled:opacity-40"
+            title="Ask the model again instead of reusing stored concepts"
+          >
+            <RefreshCw className="w-3.5 h-3.5" /> Regenerate
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 relative">
+          <ReactFlow
+            key={`${sources.length}-${sharedOnly}-${hiddenKinds.join()}`} // Re-fit whenever the set of nodes changes
+            nodes={nodes}
+            edges={edges}
+            nodeTypes={nodeTypes}
+            onNodeClick={handleNodeClick}
+            onPaneClick={() => setSelectedId(null)}
+            nodesConnectable={false}
+            fitView
+            minZoom={0.1}
+            attributionPosition="bottom-right"
+          >
+            <Background color="#cbd5e1" gap={20} size={1} />
+            <Controls className="bg-white shadow-sm border border-slate-200 !text-slate-600" />
+          </ReactFlow>
+          {!loadingId && sources.length > 0 && visibleConcepts.length === 0 && (
+            <div className="absolute inset-x-0 top-6 text-center text-sm text-slate-400 italic pointer-events-none">
+              No {sharedOnly ? 'shared ' : ''}concepts to show.
+            </div>
+          )}
+        </div>
+
+        <aside className="w-80 border-l border-slate-200 bg-white overflow-y-auto shrink-0">
+          {selected ? (
+            <div className="p-4">
+              <span className={`inline-block px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider ${KIND_STYLES[selected.kind]}`}>
+                {CONCEPT_KINDS.find(({ id }) => id === selected.kind)?.label}
+              </span>
+              <h3 className="mt-2 text-lg font-semibold text-slate-800">{selected.name}</h3>
+              {selected.aliases.length > 0 && (
+                <p className="text-xs text-slate-500 mt-0.5">Also: {selected.aliases.join(', ')}</p>
+              )}
+              <div className="mt-4 space-y-3">
+                {selected.mentions.map(mention => (
+                  <div key={mention.paperId} className="rounded-lg border border-slate-100 p-3">
+                    <button
+                      onClick={() => onOpenSource(mention.paperId, mention.pages[0], selected.name)}
+                      className="flex items-start gap-2 text-left group"
+                    >
+                      <FileText className="w-4 h-4 mt-0.5 text-slate-400 group-hover:text-indigo-500 shrink-0" />
+                      <span className="text-sm font-medium text-slate-800 group-hover:text-indigo-600 line-clamp-2">{titles.get(mention.paperId)}</span>
+                    </button>
+                    <div className="mt-2 pl-6 flex flex-wrap gap-1">
+                      {mention.pages.length > 0 ? mention.pages.map(pageNumber => (
+                        <button
+                          key={pageNumber}
+                          onClick={() => onOpenSource(mention.paperId, pageNumber, selected.name)}
+                          className="px-1.5 py-0.5 rounded bg-slate-100 text-[11px] text-slate-600 hover:bg-indigo-100 hover:text-indigo-700"
+                        >
+                          p. {pageNumber}
+                        </button>
+                      )) : (
+                        <span className="text-[11px] text-slate-400 italic">Named by the model, not found verbatim in the text</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="p-4 text-sm text-slate-500">
+              <p>Click a concept to see every paper and page that mentions it. Click a paper to open it.</p>
+              {errors.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {errors.map(({ paperId, message }) => (
+                    <div key={paperId} className="flex items-start gap-2 text-xs text-red-500">
+                      <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                      {message}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptGraphView;
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, FileText, ListTree, Network, Braces } from 'lucide-react';
+import { MindMapData } from '../types';
+import { ExportFormat, downloadMindMap } from '../services/exportService';
+
+interface ExportMenuProps {
+  data: MindMapData;
+  title: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string; hint: string; icon: React.ReactNode }[] = [
+  { format: 'markdown', label: 'Markdown', hint: 'Obsidian, wikis', icon: <FileText className="w-4 h-4" /> },
+  { format: 'opml', label: 'OPML', hint: 'Outliners', icon: <ListTree className="w-4 h-4" /> },
+  { format: 'freemind', label: 'FreeMind (.mm)', hint: 'XMind, Freeplane', icon: <Network className="w-4 h-4" /> },
+  { format: 'json', label: 'ScholarMind JSON', hint: 'Re-import later', icon: <Braces className="w-4 h-4" /> },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data, title }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    downloadMindMap(format, data, title);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-md transition-colors"
+      >
+        <Download className="w-3.5 h-3.5" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-56 bg-white rounded-lg shadow-lg border border-slate-200 py-1 z-50">
+          {FORMATS.map(({ format, label, hint, icon }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full flex items-center gap-3 px-3 py-2 text-left hover:bg-indigo-50 text-slate-700"
+            >
+              <span className="text-slate-400">{icon}</span>
+              <span className="flex-1">
+                <span className="block text-sm">{label}</span>
+                <span className="block text-[10px] text-slate-400">{hint}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Image } from 'lucide-react';
+import { PaperFigure } from '../types';
+import { shortFigureLabel } from '../services/figureService';
+
+interface FigureChipsProps {
+  figureIds?: string[];
+  figures: PaperFigure[];
+  onFigureClick: (figure: PaperFigure) => void;
+  className?: string;
+}
+
+// Links from a node to the figures and tables it discusses
+const FigureChips: React.FC<FigureChipsProps> = ({ figureIds, figures, onFigureClick, className = '' }) => {
+  const linked = (figureIds || [])
+    .map(id => figures.find(figure => figure.id === id))
+    .filter((figure): figure is PaperFigure => !!figure);
+  if (linked.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 ${className}`}>
+      {linked.map(figure => (
+        <button
+          key={figure.id}
+          // Rows and nodes navigate on click themselves; this click is for the figure only
+          onClick={(e) => { e.stopPropagation(); onFigureClick(figure); }}
+          className="flex items-center gap-0.5 px-1.5 py-0.5 rounded bg-sky-50 text-sky-700 text-[10px] font-medium hover:bg-sky-100"
+          title={`${figure.label}: ${figure.caption}`}
+        >
+          <Image className="w-3 h-3" /> {shortFigureLabel(figure)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default FigureChips;
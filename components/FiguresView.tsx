@@ -0,0 +1,181 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Images, Image, Table2, Loader2 } from 'lucide-react';
+import { FigureKind, MindMapNode, PaperFigure, PDFDocumentProxy } from '../types';
+import { renderFigureSnapshot } from '../services/figureService';
+import { flattenNodes } from '../services/mindMapTree';
+
+interface FiguresViewProps {
+  figures: PaperFigure[];
+  file: File | null; // Without the PDF (imported analyses) only captions are shown
+  root: MindMapNode;
+  onFigureClick: (figure: PaperFigure) => void;
+  onNodeClick: (pageNumber: number, quote?: string) => void;
+}
+
+interface FigureCardProps {
+  figure: PaperFigure;
+  snapshot?: string | null; // Undefined while pending, null when it couldn't be rendered
+  referencedBy: MindMapNode[];
+  onVisible: (figure: PaperFigure) => void;
+  onFigureClick: (figure: PaperFigure) => void;
+  onNodeClick: (pageNumber: number, quote?: string) => void;
+}
+
+const FigureCard: React.FC<FigureCardProps> = ({ figure, snapshot, referencedBy, onVisible, onFigureClick, onNodeClick }) => {
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // Snapshots are rendered once the card is on screen; the hidden tab never intersects
+  useEffect(() => {
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) onVisible(figure);
+    }, { rootMargin: '200px' });
+    if (cardRef.current) observer.observe(cardRef.current);
+    return () => observer.disconnect();
+  }, [figure, onVisible]);
+
+  const KindIcon = figure.kind === 'table' ? Table2 : Image;
+
+  return (
+    <div ref={cardRef} className="rounded-lg border border-slate-100 hover:border-slate-200 overflow-hidden flex flex-col">
+      <button
+        onClick={() => onFigureClick(figure)}
+        className="h-48 bg-slate-50 flex items-center justify-center border-b border-slate-100 hover:bg-indigo-50/40"
+        title="Show in the PDF"
+      >
+        {snapshot ? (
+          <img src={snapshot} alt={figure.label} className="max-h-full max-w-full object-contain" />
+        ) : snapshot === null ? (
+          <KindIcon className="w-8 h-8 text-slate-300" />
+        ) : (
+          <Loader2 className="w-5 h-5 text-slate-300 animate-spin" />
+        )}
+      </button>
+      <div className="p-3 flex-1 flex flex-col gap-1.5">
+        <div className="flex items-center gap-2">
+          <KindIcon className="w-3.5 h-3.5 text-indigo-600 shrink-0" />
+          <span className="text-sm font-semibold text-slate-800">{figure.label}</span>
+          <button onClick={() => onFigureClick(figure)} className="ml-auto text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded hover:bg-indigo-100 hover:text-indigo-700">
+            p. {figure.pageNumber}
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 leading-relaxed line-clamp-4" title={figure.caption}>
+          {figure.caption || <span className="italic text-slate-400">No caption text</span>}
+        </p>
+        {referencedBy.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mt-auto pt-1 text-[10px]">
+            <span className="text-slate-400">Discussed in</span>
+            {referencedBy.map(node => (
+              <button
+                key={node.id}
+                onClick={() => onNodeClick(node.pageNumber, node.quote)}
+                className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-600 hover:bg-indigo-100 hover:text-indigo-700 truncate max-w-[160px]"
+                title={node.summary}
+              >
+                {node.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const FiguresView: React.FC<FiguresViewProps> = ({ figures, file, root, onFigureClick, onNodeClick }) => {
+  const [kindFilter, setKindFilter] = useState<FigureKind | 'all'>('all');
+  const [snapshots, setSnapshots] = useState<Record<string, string | null>>({});
+  // The gallery opens its own copy of the PDF on demand and renders one snapshot at a time
+  const pdfDocRef = useRef<Promise<PDFDocumentProxy> | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const requestedRef = useRef(new Set<string>());
+
+  const loadPdf = useCallback(async (source: File): Promise<PDFDocumentProxy> => {
+    if (!window.pdfjsLib) throw new Error("PDF.js library not loaded");
+    const buffer = await source.arrayBuffer();
+    return window.pdfjsLib.getDocument({ data: new Uint8Array(buffer) }).promise;
+  }, []);
+
+  const requestSnapshot = useCallback((figure: PaperFigure) => {
+    if (requestedRef.current.has(figure.id)) return;
+    requestedRef.current.add(figure.id);
+    if (!file) {
+      setSnapshots(prev => ({ ...prev, [figure.id]: null }));
+      return;
+    }
+    queueRef.current = queueRef.current.then(async () => {
+      try {
+        pdfDocRef.current = pdfDocRef.current || loadPdf(file);
+        const snapshot = await renderFigureSnapshot(await pdfDocRef.current, figure);
+        setSnapshots(prev => ({ ...prev, [figure.id]: snapshot }));
+      } catch (error) {
+        console.warn(`Could not render ${figure.label}:`, error);
+        setSnapshots(prev => ({ ...prev, [figure.id]: null }));
+      }
+    });
+  }, [file, loadPdf]);
+
+  const referencedBy = useMemo(() => {
+    const byFigure = new Map<string, MindMapNode[]>();
+    flattenNodes(root).forEach(node => node.figureIds?.forEach(id => {
+      byFigure.set(id, [...(byFigure.get(id) || []), node]);
+    }));
+    return byFigure;
+  }, [root]);
+
+  const shown = figures.filter(figure => kindFilter === 'all' || figure.kind === kindFilter);
+  const tableCount = figures.filter(figure => figure.kind === 'table').length;
+
+  if (figures.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-2 p-8 text-center">
+        <Images className="w-8 h-8" />
+        <p className="text-sm">No figure or table captions were found in this document.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 bg-white">
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6 pb-4 border-b border-slate-100 flex items-center gap-2">
+          <div className="bg-indigo-100 p-2 rounded-lg">
+            <Images className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Figures & Tables</h2>
+            <p className="text-xs text-slate-500">
+              {figures.length - tableCount} figures · {tableCount} tables · click one to show it in the PDF
+            </p>
+          </div>
+          <div className="ml-auto flex items-center gap-1">
+            {([['all', 'All'], ['figure', 'Figures'], ['table', 'Tables']] as [FigureKind | 'all', string][]).map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => setKindFilter(kind)}
+                className={`text-xs px-2 py-1 rounded-md border ${kindFilter === kind ? 'border-indigo-200 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {shown.map(figure => (
+            <FigureCard
+              key={figure.id}
+              figure={figure}
+              snapshot={snapshots[figure.id]}
+              referencedBy={referencedBy.get(figure.id) || []}
+              onVisible={requestSnapshot}
+              onFigureClick={onFigureClick}
+              onNodeClick={onNodeClick}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FiguresView;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Library, FileText, Trash2, Clock, Columns3, Share2 } from 'lucide-react';
+import { LibraryPaper, WorkspaceKind } from '../types';
+import { deletePaper, listPapers } from '../services/libraryService';
+
+interface LibraryViewProps {
+  onOpen: (id: string) => void;
+  onOpenWorkspace?: (kind: WorkspaceKind, ids: string[]) => void;
+}
+
+const LibraryView: React.FC<LibraryViewProps> = ({ onOpen, onOpenWorkspace }) => {
+  const [papers, setPapers] = useState<LibraryPaper[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+  };
+
+  useEffect(() => {
+    listPapers()
+      .then(setPapers)
+      .catch((err) => {
+        console.error("Library Error:", err);
+        setError(err.message || 'Could not load the library.');
+      });
+  }, []);
+
+  const handleDelete = async (e: React.MouseEvent, paper: LibraryPaper) => {
+    e.stopPropagation();
+    if (!confirm(`Remove "${paper.title}" and its notes from the library?`)) return;
+    try {
+      await deletePaper(paper.id);
+      setPapers(prev => prev.filter(p => p.id !== paper.id));
+      setSelectedIds(prev => prev.filter(id => id !== paper.id));
+    } catch (err: any) {
+      console.error("Library Error:", err);
+      setError(err.message || 'Could not delete the paper.');
+    }
+  };
+
+  if (error) {
+    return <div className="text-xs text-red-500 text-center mt-6">{error}</div>;
+  }
+
+  if (papers.length === 0) return null;
+
+  return (
+    <div className="mt-10">
+      <div className="flex items-center gap-2 mb-3 text-slate-700">
+        <Library className="w-4 h-4 text-indigo-600" />
+        <h3 className="text-sm font-semibold uppercase tracking-wider">Library</h3>
+        <span className="text-xs text-slate-400">{papers.length} paper{papers.length === 1 ? '' : 's'}</span>
+        {onOpenWorkspace && papers.length > 1 && (
+          <div className="ml-auto flex items-center gap-1">
+            {/* With nothing ticked the concept graph spans the whole library */}
+            <button
+              onClick={() => onOpenWorkspace('concepts', selectedIds.length >= 2 ? selectedIds : papers.map(paper => paper.id))}
+              disabled={selectedIds.length === 1}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md text-indigo-600 hover:bg-indigo-50 disabled:text-slate-400 disabled:hover:bg-transparent"
+              title={selectedIds.length === 1 ? 'Tick at least two papers, or none for the whole library' : 'Concepts shared between papers'}
+            >
+              <Share2 className="w-3.5 h-3.5" />
+              Concept graph
+            </button>
+            <button
+              onClick={() => onOpenWorkspace('compare', selectedIds)}
+              disabled={selectedIds.length < 2}
+              className="flex items-center gap-1.5 px-3 py-1 text-xs font-medium rounded-md text-indigo-600 hover:bg-indigo-50 disabled:text-slate-400 disabled:hover:bg-transparent"
+              title={selectedIds.length < 2 ? 'Tick at least two papers to compare them' : undefined}
+            >
+              <Columns3 className="w-3.5 h-3.5" />
+              Compare{selectedIds.length > 0 ? ` (${selectedIds.length})` : ''}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl border border-slate-200 divide-y divide-slate-100 shadow-sm">
+        {papers.map(paper => (
+          <div
+            key={paper.id}
+            onClick={() => onOpen(paper.id)}
+            className="group flex items-center gap-3 px-4 py-3 cursor-pointer hover:bg-indigo-50/50 transition-colors"
+          >
+            {onOpenWorkspace && papers.length > 1 && (
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(paper.id)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => toggleSelected(paper.id)}
+                className="w-4 h-4 accent-indigo-600 shrink-0 cursor-pointer"
+                title="Select for comparison or the concept graph"
+              />
+            )}
+            <FileText className="w-5 h-5 text-slate-400 group-hover:text-indigo-500 shrink-0" />
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-slate-800 truncate" title={paper.title}>{paper.title}</div>
+              <div className="text-[11px] text-slate-400 flex items-center gap-2">
+                <span className="flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  {new Date(paper.addedAt).toLocaleDateString()}
+                </span>
+                <span>{paper.numPages} pages</span>
+              </div>
+            </div>
+            <button
+              onClick={(e) => handleDelete(e, paper)}
+              className="p-1.5 rounded text-slate-300 hover:text-red-500 hover:bg-red-50 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Remove from library"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryView;
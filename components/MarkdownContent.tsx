@@ -0,0 +1,89 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+
+interface MarkdownContentProps {
+  children: string;
+  // 'document' for full reports; 'inline' keeps short texts (node summaries) flowing in one block so they can be clamped
+  variant?: 'document' | 'inline';
+  className?: string;
+}
+
+// Models also write LaTeX with \( \) and \[ \] delimiters, which remark-math doesn't know
+const normalizeMath = (text: string) => text
+  .replace(/\\\[([\s\S]+?)\\\]/g, (_, formula) => `\n$$\n${formula.trim()}\n$$\n`)
+  .replace(/\\\(([\s\S]+?)\\\)/g, (_, formula) => `$${formula.trim()}$`);
+
+// Links open beside the app and never trigger the click handler of the card they sit in
+const Link: Components['a'] = ({ href, children }) => (
+  <a
+    href={href}
+    target="_blank"
+    rel="noopener noreferrer"
+    onClick={(e) => e.stopPropagation()}
+    className="text-indigo-600 underline decoration-indigo-200 hover:decoration-indigo-600"
+  >
+    {children}
+  </a>
+);
+
+const DOCUMENT_COMPONENTS: Components = {
+  h1: ({ children }) => <h2 className="font-bold text-xl mt-6 mb-3 text-slate-800">{children}</h2>,
+  h2: ({ children }) => <h3 className="font-bold text-lg mt-5 mb-2 text-slate-800">{children}</h3>,
+  h3: ({ children }) => <h4 className="font-semibold text-base mt-4 mb-2 text-slate-800">{children}</h4>,
+  h4: ({ children }) => <h5 className="font-semibold text-sm mt-3 mb-1 text-slate-800">{children}</h5>,
+  p: ({ children }) => <p className="mb-3 leading-relaxed text-slate-700">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-3 space-y-1 text-slate-700">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-3 space-y-1 text-slate-700">{children}</ol>,
+  li: ({ children }) => <li className="leading-relaxed [&>ul]:mt-1 [&>ol]:mt-1 [&>ul]:mb-0 [&>ol]:mb-0">{children}</li>,
+  a: Link,
+  blockquote: ({ children }) => <blockquote className="border-l-4 border-slate-200 pl-4 italic text-slate-600 mb-3">{children}</blockquote>,
+  hr: () => <hr className="my-6 border-slate-100" />,
+  pre: ({ children }) => <pre className="bg-slate-900 text-slate-100 text-xs rounded-lg p-4 mb-3 overflow-x-auto [&>code]:bg-transparent [&>code]:p-0 [&>code]:text-inherit">{children}</pre>,
+  code: ({ children }) => <code className="bg-slate-100 text-slate-800 rounded px-1 py-0.5 text-[0.9em] font-mono">{children}</code>,
+  table: ({ children }) => (
+    <div className="overflow-x-auto mb-3">
+      <table className="min-w-full text-sm border border-slate-200">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-slate-50">{children}</thead>,
+  th: ({ children, style }) => <th style={style} className="border border-slate-200 px-3 py-1.5 text-left font-semibold text-slate-700">{children}</th>,
+  td: ({ children, style }) => <td style={style} className="border border-slate-200 px-3 py-1.5 text-slate-700">{children}</td>
+};
+
+// Block structure flattened to inline runs; formulas, emphasis and links still render
+const INLINE_COMPONENTS: Components = {
+  h1: ({ children }) => <strong>{children} </strong>,
+  h2: ({ children }) => <strong>{children} </strong>,
+  h3: ({ children }) => <strong>{children} </strong>,
+  h4: ({ children }) => <strong>{children} </strong>,
+  p: ({ children }) => <span>{children} </span>,
+  ul: ({ children }) => <span>{children}</span>,
+  ol: ({ children }) => <span>{children}</span>,
+  li: ({ children }) => <span>• {children} </span>,
+  blockquote: ({ children }) => <span className="italic">{children}</span>,
+  pre: ({ children }) => <span>{children}</span>,
+  code: ({ children }) => <code className="bg-slate-100 rounded px-0.5 font-mono">{children}</code>,
+  a: Link,
+  hr: () => null,
+  table: () => <span className="italic">[table]</span>
+};
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ children, variant = 'document', className }) => {
+  const Wrapper = variant === 'inline' ? 'span' : 'div';
+  return (
+    <Wrapper className={className}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkMath]}
+        rehypePlugins={[rehypeKatex]}
+        components={variant === 'inline' ? INLINE_COMPONENTS : DOCUMENT_COMPONENTS}
+      >
+        {normalizeMath(children)}
+      </ReactMarkdown>
+    </Wrapper>
+  );
+};
+
+export default MarkdownContent;
@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback, useState, useEffect } from 'react';
+import React, { useMemo, useCallback, useState, useEffect, useRef, createContext, useContext } from 'react';
 import ReactFlow, {
   Node,
   Edge,
@@ -9,136 +9,182 @@ import ReactFlow, {
   useNodesState,
   useEdgesState,
   MarkerType,
+  ReactFlowInstance,
+  useUpdateNodeInternals,
 } from 'reactflow';
-import { MindMapNode, MindMapData, MindMapOptions, EdgeType, FontSize } from '../types';
-import { BookOpen, Settings, Type, GitBranch } from 'lucide-react';
+import { MindMapNode, MindMapData, MindMapOptions, MindMapEdit, MindMapLayout, SubtreeMode, HandleSide, NodeSearchHighlight, PaperFigure } from '../types';
+import {
+  BookOpen, Settings, Type, GitBranch, ImageDown, Loader2, Focus, ChevronRight, ChevronDown, ChevronsDownUp, ChevronsUpDown,
+  ArrowRightFromLine, ArrowLeftRight, Network, Orbit, CornerLeftUp, X
+} from 'lucide-react';
+import { downloadMindMapImage } from '../services/imageExportService';
+import { layoutMindMap, NODE_WIDTH, NODE_HEIGHT } from '../services/mindMapLayout';
+import { findNode, findPath, flattenNodes } from '../services/mindMapTree';
+import { canMoveNode } from '../services/mindMapEditor';
+import VerificationBadge from './VerificationBadge';
+import NodeEditActions from './NodeEditActions';
+import FigureChips from './FigureChips';
+import MarkdownContent from './MarkdownContent';
 
 interface MindMapGraphProps {
   data: MindMapData | null;
   onNodeClick: (pageNumber: number, quote?: string) => void;
+  onEdit?: (edit: MindMapEdit) => void; // Omitted while the map is read-only (e.g. still streaming)
+  onRefine?: (node: MindMapNode, mode: SubtreeMode) => void;
+  refiningNodeId?: string | null; // Node whose subtree is being regenerated
+  title?: string; // Used for exported image file names
+  figures?: PaperFigure[];
+  onFigureClick?: (figure: PaperFigure) => void;
+  search?: NodeSearchHighlight | null; // Matching nodes stay bright, the rest fade; the focused one is centered
 }
 
-// --- Layout Engine (Left-to-Right Block Layout) ---
-const NODE_WIDTH = 280; // Slightly wider for better text fit
-const NODE_HEIGHT = 140; 
-const RANK_SPACING = 140; // Horizontal spacing between ranks
-const NODE_SPACING = 24;  // Vertical spacing between siblings
-
-// Calculate the vertical height required for each subtree
-const calculateSubtreeHeight = (node: MindMapNode): number => {
-  if (!node.children || node.children.length === 0) {
-    node.height = NODE_HEIGHT;
-    return NODE_HEIGHT;
-  }
-
-  let totalHeight = 0;
-  node.children.forEach((child, index) => {
-    totalHeight += calculateSubtreeHeight(child);
-    if (index < (node.children?.length || 0) - 1) {
-      totalHeight += NODE_SPACING;
-    }
-  });
+// Lets the custom nodes reach the tree and the edit handler without threading them through node data
+const MindMapEditContext = createContext<{
+  root: MindMapNode;
+  nodesById: Map<string, MindMapNode>; // Built once per tree; nodes look themselves up on every render
+  onEdit: (edit: MindMapEdit) => void;
+  onRefine?: (node: MindMapNode, mode: SubtreeMode) => void;
+  refiningNodeId: string | null;
+  dropTargetId: string | null;
+} | null>(null);
 
-  // The node's subtree height is at least the node's own height
-  node.height = Math.max(NODE_HEIGHT, totalHeight);
-  return node.height;
-};
+// Figure chips need the document's figures and a click handler, independent of editing
+const MindMapFigureContext = createContext<{
+  figures: PaperFigure[];
+  onFigureClick: (figure: PaperFigure) => void;
+} | null>(null);
 
-// Assign positions based on subtree heights (Left-to-Right)
-const assignPositions = (
-  node: MindMapNode, 
-  x: number, 
-  y: number, 
-  nodes: Node[], 
-  edges: Edge[], 
-  options: MindMapOptions,
-  parentId?: string
-) => {
-  // Center parent vertically within its subtree's allocated height
-  const myY = y + (node.height! / 2) - (NODE_HEIGHT / 2);
-  const myX = x;
-  
-  const fontSizeClass = {
-    small: 'text-xs',
-    medium: 'text-sm',
-    large: 'text-base',
-  }[options.fontSize];
-
-  nodes.push({
-    id: node.id,
-    type: 'custom',
-    position: { x: myX, y: myY },
-    sourcePosition: Position.Right,
-    targetPosition: Position.Left,
-    data: { 
-        label: node.label, 
-        summary: node.summary,
-        pageNumber: node.pageNumber,
-        quote: node.quote,
-        fontSizeClass
-    },
-  });
+const MindMapSearchContext = createContext<NodeSearchHighlight | null>(null);
 
-  if (parentId) {
-    edges.push({
-      id: `${parentId}-${node.id}`,
-      source: parentId,
-      target: node.id,
-      type: options.edgeType,
-      animated: true,
-      style: { stroke: '#94a3b8', strokeWidth: 2 },
-      markerEnd: {
-        type: MarkerType.ArrowClosed,
-        color: '#94a3b8',
-      },
-    });
-  }
-
-  if (node.children && node.children.length > 0) {
-    const childX = x + NODE_WIDTH + RANK_SPACING; // Move right for children
-    let currentY = y;
-    
-    // Calculate total height of children block to center it relative to parent
-    const childrenStackHeight = node.children.reduce((acc, c) => acc + (c.height || 0), 0) 
-                              + (node.children.length - 1) * NODE_SPACING;
-    
-    const offset = (node.height! - childrenStackHeight) / 2;
-    currentY += offset;
-
-    node.children.forEach((child) => {
-      assignPositions(child, childX, currentY, nodes, edges, options, node.id);
-      currentY += child.height! + NODE_SPACING; // Move down for next sibling
-    });
-  }
-};
+// Collapsing and focusing change what is shown, never the tree itself
+const MindMapViewContext = createContext<{
+  focusRootId: string | null;
+  onToggleCollapse: (id: string) => void;
+  onFocus: (id: string) => void;
+} | null>(null);
+
+interface CustomNodeData {
+  label: string;
+  summary: string;
+  pageNumber: number;
+  quote?: string;
+  verified?: boolean;
+  originalPageNumber?: number;
+  figureIds?: string[];
+  fontSizeClass: string;
+  targetSide?: HandleSide;
+  sourceSides: HandleSide[];
+  childCount: number;
+  collapsed: boolean;
+  hiddenCount: number;
+}
+
+const HANDLE_POSITIONS: Record<HandleSide, Position> = { left: Position.Left, right: Position.Right, top: Position.Top, bottom: Position.Bottom };
+const HANDLE_CLASSES: Record<HandleSide, string> = { left: '!-left-1.5', right: '!-right-1.5', top: '!-top-1.5', bottom: '!-bottom-1.5' };
+
+const LAYOUT_CHOICES: { layout: MindMapLayout; title: string; Icon: typeof Orbit }[] = [
+  { layout: 'horizontal', title: 'Left to right', Icon: ArrowRightFromLine },
+  { layout: 'vertical', title: 'Top down', Icon: Network },
+  { layout: 'balanced', title: 'Both sides', Icon: ArrowLeftRight },
+  { layout: 'radial', title: 'Radial', Icon: Orbit }
+];
+
+// How long nodes take to glide to their new places after a layout change
+const LAYOUT_ANIMATION_MS = 400;
+
+const CustomNode = ({ id, data }: { id: string; data: CustomNodeData }) => {
+  const editing = useContext(MindMapEditContext);
+  const figureLinks = useContext(MindMapFigureContext);
+  const search = useContext(MindMapSearchContext);
+  const view = useContext(MindMapViewContext);
+
+  // ReactFlow measures handles only when a node resizes, so tell it when a new layout moves them
+  const updateNodeInternals = useUpdateNodeInternals();
+  const handleSides = `${data.targetSide}|${data.sourceSides.join(',')}`;
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, handleSides, updateNodeInternals]);
+  const node = editing?.nodesById.get(id) || null;
+  const searchClass = !search ? ''
+    : search.focusedId === id ? 'ring-4 ring-orange-400 border-orange-500'
+    : search.matchIds.has(id) ? 'ring-2 ring-amber-300 border-amber-400'
+    : 'opacity-40';
 
-const CustomNode = ({ data }: { data: { label: string; summary: string; pageNumber: number; quote?: string; fontSizeClass: string } }) => {
   return (
     <div className={`
         px-4 py-3 shadow-md rounded-lg bg-white border border-slate-200 w-[280px] group 
         hover:border-indigo-500 hover:shadow-lg transition-all cursor-pointer h-[140px] flex flex-col relative
+        ${editing?.dropTargetId === id ? 'ring-4 ring-indigo-300 border-indigo-500' : searchClass}
     `}>
-      {/* Target Handle (Left) - for incoming connections */}
-      <Handle type="target" position={Position.Left} className="!bg-slate-300 w-3 h-3 !-left-1.5" />
+      {/* Target Handle - for the connection from the parent, on the side the layout puts it */}
+      {data.targetSide && (
+        <Handle type="target" id={`target-${data.targetSide}`} position={HANDLE_POSITIONS[data.targetSide]} className={`!bg-slate-300 w-3 h-3 ${HANDLE_CLASSES[data.targetSide]}`} />
+      )}
       
       <div className="flex items-start justify-between mb-2">
         <div className={`font-bold text-slate-800 leading-tight line-clamp-2 ${data.fontSizeClass}`}>{data.label}</div>
         <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded font-mono flex items-center gap-1 whitespace-nowrap shrink-0 ml-2">
+           <VerificationBadge verified={data.verified} originalPageNumber={data.originalPageNumber} />
            Pg {data.pageNumber}
         </span>
       </div>
       
       <div className="text-xs text-slate-500 line-clamp-3 leading-relaxed border-t border-slate-50 pt-2 mt-1 flex-1">
-        {data.summary}
+        <MarkdownContent variant="inline">{data.summary}</MarkdownContent>
       </div>
 
-      <div className="mt-auto pt-2 flex items-center text-indigo-600 text-[10px] font-medium opacity-0 group-hover:opacity-100 transition-opacity">
-        <BookOpen className="w-3 h-3 mr-1" />
-        {data.quote ? "Read Quote" : "Go to Page"}
+      <div className="mt-auto pt-2 flex items-center gap-1 text-indigo-600 text-[10px] font-medium">
+        <span className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <BookOpen className="w-3 h-3 mr-1" />
+          {data.quote ? "Read Quote" : "Go to Page"}
+        </span>
+        {figureLinks && (
+          <FigureChips figureIds={data.figureIds} figures={figureLinks.figures} onFigureClick={figureLinks.onFigureClick} className="nodrag" />
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          {view && data.childCount > 0 && view.focusRootId !== id && (
+            <button
+              onClick={(e) => { e.stopPropagation(); view.onFocus(id); }}
+              className="nodrag p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Focus on this branch"
+            >
+              <Focus className="w-3 h-3" />
+            </button>
+          )}
+          {view && data.childCount > 0 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); view.onToggleCollapse(id); }}
+              className={`nodrag flex items-center gap-0.5 px-1 py-0.5 rounded border transition-opacity ${data.collapsed
+                ? 'border-indigo-200 bg-indigo-50 text-indigo-600'
+                : 'border-transparent text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 opacity-0 group-hover:opacity-100'}`}
+              title={data.collapsed ? `Show ${data.hiddenCount} hidden nodes` : 'Collapse this branch'}
+            >
+              {data.collapsed ? <><ChevronRight className="w-3 h-3" />{data.hiddenCount}</> : <ChevronDown className="w-3 h-3" />}
+            </button>
+          )}
+          {editing && node && (
+            <NodeEditActions
+              node={node}
+              isRoot={node.id === editing.root.id}
+              onEdit={editing.onEdit}
+              onRefine={editing.onRefine}
+              disabled={!!editing.refiningNodeId}
+              className="nodrag opacity-0 group-hover:opacity-100 transition-opacity"
+            />
+          )}
+        </div>
       </div>
 
-      {/* Source Handle (Right) - for outgoing connections */}
-      <Handle type="source" position={Position.Right} className="!bg-slate-300 w-3 h-3 !-right-1.5" />
+      {editing?.refiningNodeId === id && (
+        <div className="absolute inset-0 rounded-lg bg-white/80 flex items-center justify-center gap-2 text-xs text-indigo-600 font-medium">
+          <Loader2 className="w-4 h-4 animate-spin" /> Asking the model...
+        </div>
+      )}
+
+      {/* Source Handles - one per side that connections to the children leave from */}
+      {data.sourceSides.map(side => (
+        <Handle key={side} type="source" id={`source-${side}`} position={HANDLE_POSITIONS[side]} className={`!bg-slate-300 w-3 h-3 ${HANDLE_CLASSES[side]}`} />
+      ))}
     </div>
   );
 };
@@ -147,36 +193,260 @@ const nodeTypes = {
   custom: CustomNode,
 };
 
-const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick }) => {
+const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick, onEdit, onRefine, refiningNodeId = null, title = 'mindmap', figures, onFigureClick, search = null }) => {
   const [options, setOptions] = useState<MindMapOptions>({
     edgeType: 'smoothstep', // Default to smoothstep for clean LTR lines
-    fontSize: 'medium'
+    fontSize: 'medium',
+    layout: 'horizontal'
   });
+  const [collapsedIds, setCollapsedIds] = useState<ReadonlySet<string>>(() => new Set());
+  const [focusRootId, setFocusRootId] = useState<string | null>(null);
 
-  const { initialNodes, initialEdges } = useMemo(() => {
-    if (!data) return { initialNodes: [], initialEdges: [] };
+  // Layout only depends on the tree, so streamed abstract/report updates don't trigger a re-layout
+  const root = data?.root;
+  // Focusing lays out one branch as if it were the whole map; a deleted branch falls back to the full tree
+  const layoutRoot = useMemo(
+    () => (root && focusRootId ? findNode(root, focusRootId) || root : root),
+    [root, focusRootId]
+  );
+  const focusPath = useMemo(
+    () => (root && layoutRoot && layoutRoot !== root ? findPath(root, layoutRoot.id) : null),
+    [root, layoutRoot]
+  );
 
-    const nodes: Node[] = [];
-    const edges: Edge[] = [];
-    
-    calculateSubtreeHeight(data.root);
-    assignPositions(data.root, 0, 0, nodes, edges, options);
+  const { initialNodes, initialEdges, parentIds } = useMemo(() => {
+    if (!layoutRoot) return { initialNodes: [], initialEdges: [], parentIds: new Map<string, string>() };
 
-    return { initialNodes: nodes, initialEdges: edges };
-  }, [data, options]);
+    const layout = layoutMindMap(layoutRoot, options.layout, collapsedIds);
+    const fontSizeClass = {
+      small: 'text-xs',
+      medium: 'text-sm',
+      large: 'text-base',
+    }[options.fontSize];
+
+    const nodes: Node<CustomNodeData>[] = layout.nodes.map(({ node, x, y, targetSide, sourceSides, collapsed, hiddenCount }) => ({
+      id: node.id,
+      type: 'custom',
+      position: { x, y },
+      data: {
+        label: node.label,
+        summary: node.summary,
+        pageNumber: node.pageNumber,
+        quote: node.quote,
+        verified: node.verified,
+        originalPageNumber: node.originalPageNumber,
+        figureIds: node.figureIds,
+        fontSizeClass,
+        targetSide,
+        sourceSides,
+        childCount: node.children?.length || 0,
+        collapsed,
+        hiddenCount
+      },
+    }));
+
+    const edges: Edge<{ sourceSide: HandleSide; targetSide: HandleSide }>[] = layout.edges.map(edge => ({
+      id: `${edge.source}-${edge.target}`,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: `source-${edge.sourceSide}`,
+      targetHandle: `target-${edge.targetSide}`,
+      data: { sourceSide: edge.sourceSide, targetSide: edge.targetSide },
+      type: options.edgeType,
+      animated: true,
+      style: { stroke: '#94a3b8', strokeWidth: 2 },
+      markerEnd: {
+        type: MarkerType.ArrowClosed,
+        color: '#94a3b8',
+      },
+    }));
+
+    const parents = new Map<string, string>();
+    layout.nodes.forEach(item => { if (item.parentId) parents.set(item.node.id, item.parentId); });
+
+    return { initialNodes: nodes, initialEdges: edges, parentIds: parents };
+  }, [layoutRoot, options, collapsedIds]);
 
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
 
+  const flowRef = useRef<ReactFlowInstance | null>(null);
+  const nodesRef = useRef(nodes);
+  useEffect(() => {
+    nodesRef.current = nodes;
+  }, [nodes]);
+  // Set when the whole picture changes (another layout or branch), so the view refits once nodes settle
+  const fitPendingRef = useRef(false);
+
+  // Glide nodes from where they are to the new layout; nodes that appear grow out of their nearest visible ancestor
   useEffect(() => {
-    setNodes(initialNodes);
     setEdges(initialEdges);
-  }, [initialNodes, initialEdges, setNodes, setEdges]);
+    const previous = new Map(nodesRef.current.map(node => [node.id, node.position]));
+    const startOf = (id: string) => {
+      for (let current: string | undefined = id; current; current = parentIds.get(current)) {
+        const position = previous.get(current);
+        if (position) return position;
+      }
+      return undefined;
+    };
+    const starts = initialNodes.map(node => startOf(node.id) || node.position);
+
+    const finish = () => {
+      setNodes(initialNodes);
+      if (fitPendingRef.current) {
+        fitPendingRef.current = false;
+        flowRef.current?.fitView({ padding: 0.2, duration: 300 });
+      }
+    };
+    const moves = initialNodes.some((node, index) => starts[index].x !== node.position.x || starts[index].y !== node.position.y);
+    if (!moves || window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      finish();
+      return;
+    }
+
+    let frame = 0;
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startedAt) / LAYOUT_ANIMATION_MS);
+      if (progress >= 1) {
+        finish();
+        return;
+      }
+      const eased = 1 - Math.pow(1 - progress, 3);
+      setNodes(initialNodes.map((node, index) => ({
+        ...node,
+        position: {
+          x: starts[index].x + (node.position.x - starts[index].x) * eased,
+          y: starts[index].y + (node.position.y - starts[index].y) * eased
+        }
+      })));
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [initialNodes, initialEdges, parentIds, setNodes, setEdges]);
+
+  const changeLayout = (layout: MindMapLayout) => {
+    if (layout === options.layout) return;
+    fitPendingRef.current = true;
+    setOptions(o => ({ ...o, layout }));
+  };
+
+  const focusOn = useCallback((id: string | null) => {
+    fitPendingRef.current = true;
+    setFocusRootId(id);
+  }, []);
+
+  const toggleCollapse = useCallback((id: string) => {
+    setCollapsedIds(current => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+
+  // Leaves the shown root and its main branches, with everything below them folded away
+  const collapseToBranches = () => {
+    if (!layoutRoot) return;
+    setCollapsedIds(new Set((layoutRoot.children || []).filter(child => child.children?.length).map(child => child.id)));
+  };
+
+  const viewContext = useMemo(
+      () => ({ focusRootId: layoutRoot && layoutRoot !== root ? layoutRoot.id : null, onToggleCollapse: toggleCollapse, onFocus: focusOn }),
+      [layoutRoot, root, toggleCollapse, focusOn]
+  );
+
+  // A search hit inside a folded or unfocused branch is revealed before it is centered
+  const focusedId = search?.focusedId;
+  useEffect(() => {
+      if (!root || !focusedId) return;
+      const path = findPath(root, focusedId);
+      if (!path) return;
+      const ancestorIds = path.slice(0, -1).map(node => node.id);
+      setCollapsedIds(current => ancestorIds.some(id => current.has(id))
+          ? new Set(Array.from(current).filter(id => !ancestorIds.includes(id)))
+          : current);
+      setFocusRootId(current => current && !path.some(node => node.id === current) ? null : current);
+  }, [focusedId, root]);
+
+  // Center the node the search stepped to, keeping the zoom if it's readable
+  const centeredIdRef = useRef<string | null>(null);
+  useEffect(() => {
+      const flow = flowRef.current;
+      const target = focusedId ? initialNodes.find(node => node.id === focusedId) : undefined;
+      if (!focusedId) centeredIdRef.current = null;
+      if (!flow || !target || centeredIdRef.current === focusedId) return;
+      centeredIdRef.current = target.id;
+      flow.setCenter(target.position.x + NODE_WIDTH / 2, target.position.y + NODE_HEIGHT / 2, { zoom: Math.max(flow.getZoom(), 0.8), duration: 400 });
+  }, [focusedId, initialNodes]);
 
   const handleNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
       onNodeClick(node.data.pageNumber, node.data.quote);
   }, [onNodeClick]);
 
+  // Dropping a node onto another one makes it that node's child
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const findDropTarget = useCallback((dragged: Node): string | null => {
+      if (!root) return null;
+      const centerX = dragged.position.x + NODE_WIDTH / 2;
+      const centerY = dragged.position.y + NODE_HEIGHT / 2;
+      const target = nodes.find(node => node.id !== dragged.id
+          && centerX >= node.position.x && centerX <= node.position.x + NODE_WIDTH
+          && centerY >= node.position.y && centerY <= node.position.y + NODE_HEIGHT);
+      return target && canMoveNode(root, dragged.id, target.id) ? target.id : null;
+  }, [nodes, root]);
+
+  const handleNodeDrag = useCallback((event: React.MouseEvent, node: Node) => {
+      if (onEdit) setDropTargetId(findDropTarget(node));
+  }, [onEdit, findDropTarget]);
+
+  const handleNodeDragStop = useCallback((event: React.MouseEvent, node: Node) => {
+      setDropTargetId(null);
+      const targetId = onEdit ? findDropTarget(node) : null;
+      if (onEdit && targetId) onEdit({ type: 'move', id: node.id, parentId: targetId });
+  }, [onEdit, findDropTarget]);
+
+  const nodesById = useMemo(
+      () => new Map(root ? flattenNodes(root).map(node => [node.id, node]) : []),
+      [root]
+  );
+
+  const editContext = useMemo(
+      () => (onEdit && root ? { root, nodesById, onEdit, onRefine, refiningNodeId, dropTargetId } : null),
+      [root, nodesById, onEdit, onRefine, refiningNodeId, dropTargetId]
+  );
+
+  const figureContext = useMemo(
+      () => (figures && figures.length > 0 && onFigureClick ? { figures, onFigureClick } : null),
+      [figures, onFigureClick]
+  );
+
+  // Export the shown graph as laid out (including manual drags), independent of the current viewport
+  const handleExportImage = useCallback(async (format: 'svg' | 'png') => {
+    try {
+      await downloadMindMapImage(
+        format,
+        nodes.map(node => ({
+          id: node.id,
+          x: node.position.x,
+          y: node.position.y,
+          width: NODE_WIDTH,
+          height: NODE_HEIGHT,
+          label: node.data.label,
+          summary: node.data.summary,
+          pageNumber: node.data.pageNumber
+        })),
+        edges.map(edge => ({ source: edge.source, target: edge.target, sourceSide: edge.data!.sourceSide, targetSide: edge.data!.targetSide })),
+        options,
+        title
+      );
+    } catch (error: any) {
+      console.error("Image Export Error:", error);
+      alert(error.message || 'Failed to export image.');
+    }
+  }, [nodes, edges, options, title]);
+
   if (!data) return null;
 
   return (
@@ -187,9 +457,22 @@ const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick }) => {
             <div className="p-2 border-b border-slate-100 text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
                 <Settings className="w-3 h-3" /> Display
             </div>
+
+            {/* Layout Control */}
+            <div className="flex items-center gap-1 p-1">
+                {LAYOUT_CHOICES.map(({ layout, title: layoutTitle, Icon }) => (
+                    <button key={layout} onClick={() => changeLayout(layout)} className={`p-1.5 rounded ${options.layout === layout ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`} title={layoutTitle}><Icon className="w-4 h-4" /></button>
+                ))}
+            </div>
+
+            {/* Collapse Control */}
+            <div className="flex items-center gap-1 p-1 border-t border-slate-100">
+                <button onClick={collapseToBranches} className="p-1.5 rounded text-slate-400 hover:bg-slate-50 hover:text-indigo-600" title="Collapse to main branches"><ChevronsDownUp className="w-4 h-4" /></button>
+                <button onClick={() => setCollapsedIds(new Set())} disabled={collapsedIds.size === 0} className="p-1.5 rounded text-slate-400 hover:bg-slate-50 hover:text-indigo-600 disabled:opacity-30" title="Expand all"><ChevronsUpDown className="w-4 h-4" /></button>
+            </div>
             
             {/* Font Size Control */}
-            <div className="flex items-center gap-1 p-1">
+            <div className="flex items-center gap-1 p-1 border-t border-slate-100">
                 <button onClick={() => setOptions(o => ({...o, fontSize: 'small'}))} className={`p-1.5 rounded ${options.fontSize === 'small' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`}><Type className="w-3 h-3" /></button>
                 <button onClick={() => setOptions(o => ({...o, fontSize: 'medium'}))} className={`p-1.5 rounded ${options.fontSize === 'medium' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`}><Type className="w-4 h-4" /></button>
                 <button onClick={() => setOptions(o => ({...o, fontSize: 'large'}))} className={`p-1.5 rounded ${options.fontSize === 'large' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`}><Type className="w-5 h-5" /></button>
@@ -201,23 +484,53 @@ const MindMapGraph: React.FC<MindMapGraphProps> = ({ data, onNodeClick }) => {
                 <button onClick={() => setOptions(o => ({...o, edgeType: 'smoothstep'}))} className={`p-1.5 rounded ${options.edgeType === 'smoothstep' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`} title="Step"><GitBranch className="w-4 h-4" /></button>
                 <button onClick={() => setOptions(o => ({...o, edgeType: 'default'}))} className={`p-1.5 rounded ${options.edgeType === 'default' ? 'bg-indigo-100 text-indigo-600' : 'text-slate-400 hover:bg-slate-50'}`} title="Bezier"><div className="w-4 h-4 border-b-2 border-l-2 border-current rounded-bl-lg"></div></button>
             </div>
+
+             {/* Image Export */}
+             <div className="flex items-center gap-1 p-1 border-t border-slate-100" title="Export image">
+                <ImageDown className="w-3.5 h-3.5 text-slate-400 mx-1" />
+                <button onClick={() => handleExportImage('svg')} className="px-1.5 py-1 rounded text-[10px] font-semibold text-slate-500 hover:bg-indigo-50 hover:text-indigo-600">SVG</button>
+                <button onClick={() => handleExportImage('png')} className="px-1.5 py-1 rounded text-[10px] font-semibold text-slate-500 hover:bg-indigo-50 hover:text-indigo-600">PNG</button>
+            </div>
          </div>
       </div>
 
-      <ReactFlow
-        nodes={nodes} 
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        nodeTypes={nodeTypes}
-        onNodeClick={handleNodeClick}
-        fitView
-        minZoom={0.1}
-        attributionPosition="bottom-right"
-      >
-        <Background color="#cbd5e1" gap={20} size={1} />
-        <Controls className="bg-white shadow-sm border border-slate-200 !text-slate-600" />
-      </ReactFlow>
+      {/* Focus Banner */}
+      {focusPath && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-white rounded-lg shadow border border-slate-200 pl-3 pr-1 py-1 flex items-center gap-2 text-xs">
+            <Focus className="w-3.5 h-3.5 text-indigo-500 shrink-0" />
+            <span className="text-slate-500 whitespace-nowrap">Focused on</span>
+            <span className="font-semibold text-slate-700 truncate max-w-[240px]">{focusPath[focusPath.length - 1].label}</span>
+            <button onClick={() => focusOn(focusPath.length > 2 ? focusPath[focusPath.length - 2].id : null)} className="p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50" title="Up one level"><CornerLeftUp className="w-3.5 h-3.5" /></button>
+            <button onClick={() => focusOn(null)} className="p-1 rounded text-slate-400 hover:text-slate-600 hover:bg-slate-50" title="Show the whole map"><X className="w-3.5 h-3.5" /></button>
+        </div>
+      )}
+
+      <MindMapEditContext.Provider value={editContext}>
+        <MindMapFigureContext.Provider value={figureContext}>
+          <MindMapSearchContext.Provider value={search}>
+            <MindMapViewContext.Provider value={viewContext}>
+              <ReactFlow
+                nodes={nodes} 
+                edges={edges}
+                onNodesChange={onNodesChange}
+                onEdgesChange={onEdgesChange}
+                nodeTypes={nodeTypes}
+                onNodeClick={handleNodeClick}
+                onNodeDrag={handleNodeDrag}
+                onNodeDragStop={handleNodeDragStop}
+                deleteKeyCode={null} // Deleting goes through the edit actions so it can be undone
+                onInit={(instance) => { flowRef.current = instance; }}
+                fitView
+                minZoom={0.1}
+                attributionPosition="bottom-right"
+              >
+                <Background color="#cbd5e1" gap={20} size={1} />
+                <Controls className="bg-white shadow-sm border border-slate-200 !text-slate-600" />
+              </ReactFlow>
+            </MindMapViewContext.Provider>
+          </MindMapSearchContext.Provider>
+        </MindMapFigureContext.Provider>
+      </MindMapEditContext.Provider>
     </div>
   );
 };
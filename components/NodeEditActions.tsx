@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, ArrowUp, ArrowDown, Trash2, Sparkles, RefreshCw } from 'lucide-react';
+import { MindMapEdit, MindMapNode, SubtreeMode } from '../types';
+import { createChildNode } from '../services/mindMapEditor';
+import NodeEditDialog from './NodeEditDialog';
+
+interface NodeEditActionsProps {
+  node: MindMapNode;
+  isRoot: boolean;
+  onEdit: (edit: MindMapEdit) => void;
+  onRefine?: (node: MindMapNode, mode: SubtreeMode) => void; // Needs the paper text, so absent for JSON imports
+  disabled?: boolean; // While a subtree is being regenerated
+  className?: string;
+}
+
+// Hover toolbar shared by the graph and the outline: rename, add child, reorder, delete, ask the model again
+const NodeEditActions: React.FC<NodeEditActionsProps> = ({ node, isRoot, onEdit, onRefine, disabled = false, className = '' }) => {
+  const [dialog, setDialog] = useState<{ node: MindMapNode; isNew: boolean } | null>(null);
+
+  // Clicks must not reach the node, which would jump the PDF
+  const action = (handler: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler();
+  };
+
+  const handleDelete = () => {
+    if ((node.children || []).length > 0 && !confirm(`Delete "${node.label}" and everything below it?`)) return;
+    onEdit({ type: 'delete', id: node.id });
+  };
+
+  const handleSave = (changes: { label: string; summary: string }) => {
+    if (!dialog) return;
+    if (dialog.isNew) {
+      onEdit({ type: 'add', parentId: node.id, node: { ...dialog.node, ...changes } });
+    } else if (changes.label !== node.label || changes.summary !== node.summary) {
+      onEdit({ type: 'update', id: node.id, changes });
+    }
+    setDialog(null);
+  };
+
+  const buttonClass = 'p-1 rounded text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <>
+      <div className={`flex items-center gap-0.5 ${className}`} onMouseDown={(e) => e.stopPropagation()}>
+        {onRefine && !isRoot && (
+          <>
+            <button onClick={action(() => onRefine(node, 'expand'))} disabled={disabled} className={buttonClass} title="Expand deeper">
+              <Sparkles className="w-3 h-3" />
+            </button>
+            <button onClick={action(() => onRefine(node, 'regenerate'))} disabled={disabled} className={buttonClass} title="Regenerate this node">
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          </>
+        )}
+        <button onClick={action(() => setDialog({ node, isNew: false }))} disabled={disabled} className={buttonClass} title="Rename">
+          <Pencil className="w-3 h-3" />
+        </button>
+        <button onClick={action(() => setDialog({ node: createChildNode(node), isNew: true }))} disabled={disabled} className={buttonClass} title="Add child">
+          <Plus className="w-3 h-3" />
+        </button>
+        {!isRoot && (
+          <>
+            <button onClick={action(() => onEdit({ type: 'reorder', id: node.id, offset: -1 }))} disabled={disabled} className={buttonClass} title="Move up">
+              <ArrowUp className="w-3 h-3" />
+            </button>
+            <button onClick={action(() => onEdit({ type: 'reorder', id: node.id, offset: 1 }))} disabled={disabled} className={buttonClass} title="Move down">
+              <ArrowDown className="w-3 h-3" />
+            </button>
+            <button onClick={action(handleDelete)} disabled={disabled} className="p-1 rounded text-slate-400 hover:text-red-500 hover:bg-red-50 disabled:opacity-30 disabled:pointer-events-none" title="Delete">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {dialog && (
+        // Portal events still bubble through the React tree; keep them away from the node's handlers
+        <div onClick={(e) => e.stopPropagation()} onMouseDown={(e) => e.stopPropagation()} onDoubleClick={(e) => e.stopPropagation()}>
+          <NodeEditDialog
+            node={dialog.node}
+            title={dialog.isNew ? `New node under "${node.label}"` : 'Edit node'}
+            onSave={handleSave}
+            onClose={() => setDialog(null)}
+          />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default NodeEditActions;
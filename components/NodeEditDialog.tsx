@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Pencil } from 'lucide-react';
+import { MindMapNode } from '../types';
+
+interface NodeEditDialogProps {
+  node: MindMapNode;
+  title?: string;
+  onSave: (changes: { label: string; summary: string }) => void;
+  onClose: () => void;
+}
+
+const NodeEditDialog: React.FC<NodeEditDialogProps> = ({ node, title = 'Edit node', onSave, onClose }) => {
+  const [label, setLabel] = useState(node.label);
+  const [summary, setSummary] = useState(node.summary);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    onSave({ label: label.trim(), summary: summary.trim() });
+  };
+
+  // Portaled to the body: inside the zoomed graph viewport a fixed overlay would be transformed with it
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Pencil className="w-4 h-4 text-indigo-600" /> {title}
+          </h2>
+          <button type="button" onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-sm">
+          <label className="block">
+            <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">Label</span>
+            <input
+              autoFocus
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-400"
+            />
+          </label>
+          <label className="block">
+            <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wider">Summary</span>
+            <textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={4}
+              className="mt-1 w-full px-3 py-2 border border-slate-200 rounded-lg resize-y focus:outline-none focus:border-indigo-400"
+            />
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-3 border-t border-slate-100">
+          <button type="button" onClick={onClose} className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:bg-slate-100 rounded-md">
+            Cancel
+          </button>
+          <button type="submit" disabled={!label.trim()} className="px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 rounded-md">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  );
+};
+
+export default NodeEditDialog;
@@ -1,24 +1,72 @@
-import React from 'react';
-import { MindMapData, MindMapNode } from '../types';
-import { ChevronRight, FileText, Hash, Layers } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { MindMapData, MindMapEdit, MindMapNode, NodeSearchHighlight, PaperFigure, SubtreeMode } from '../types';
+import { ChevronRight, FileText, Hash, Layers, Loader2 } from 'lucide-react';
+import { canMoveNode } from '../services/mindMapEditor';
+import VerificationBadge from './VerificationBadge';
+import NodeEditActions from './NodeEditActions';
+import FigureChips from './FigureChips';
+import MarkdownContent from './MarkdownContent';
 
 interface OutlineViewProps {
   data: MindMapData;
   onNodeClick: (pageNumber: number, quote?: string) => void;
+  onEdit?: (edit: MindMapEdit) => void; // Omitted while the outline is read-only
+  onRefine?: (node: MindMapNode, mode: SubtreeMode) => void;
+  refiningNodeId?: string | null;
+  figures?: PaperFigure[];
+  onFigureClick?: (figure: PaperFigure) => void;
+  search?: NodeSearchHighlight | null;
 }
 
-const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick }) => {
+const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick, onEdit, onRefine, refiningNodeId = null, figures = [], onFigureClick, search = null }) => {
+  // Drag a row onto another to make it a child of that row
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const focusedId = search?.focusedId;
+  useEffect(() => {
+    if (focusedId) document.getElementById(`outline-node-${focusedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedId]);
+
+  const canDropOn = (targetId: string) => !!draggedId && canMoveNode(data.root, draggedId, targetId);
+
+  const handleDrop = (e: React.DragEvent, targetId: string) => {
+    e.preventDefault();
+    if (onEdit && draggedId && canDropOn(targetId)) {
+      onEdit({ type: 'move', id: draggedId, parentId: targetId });
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
   
   const renderNode = (node: MindMapNode, depth: number) => {
     return (
       <div key={node.id} className="mb-2">
         <div 
+            id={`outline-node-${node.id}`}
             className={`
                 group flex items-start p-2 rounded-lg cursor-pointer transition-colors
                 ${depth === 0 ? 'bg-indigo-50 border border-indigo-100 mb-2 mt-4' : 'hover:bg-slate-50 border border-transparent hover:border-slate-100'}
+                ${search?.focusedId === node.id ? '!border-orange-400 ring-2 ring-orange-300' : search?.matchIds.has(node.id) ? '!border-amber-300 !bg-amber-50' : ''}
+                ${dropTargetId === node.id ? '!border-indigo-400 ring-2 ring-indigo-200' : ''}
+                ${draggedId === node.id ? 'opacity-50' : ''}
             `}
             style={{ marginLeft: `${depth * 20}px` }}
             onClick={() => onNodeClick(node.pageNumber, node.quote)}
+            draggable={!!onEdit && node.id !== data.root.id}
+            onDragStart={(e) => {
+                e.stopPropagation();
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(node.id);
+            }}
+            onDragEnd={() => { setDraggedId(null); setDropTargetId(null); }}
+            onDragOver={(e) => {
+                if (!canDropOn(node.id)) return;
+                e.preventDefault(); // Marks the row as a valid drop target
+                if (dropTargetId !== node.id) setDropTargetId(node.id);
+            }}
+            onDragLeave={() => { if (dropTargetId === node.id) setDropTargetId(null); }}
+            onDrop={(e) => handleDrop(e, node.id)}
         >
           {/* Icon based on depth */}
           <div className="mt-1 mr-2 shrink-0 text-slate-400 group-hover:text-indigo-500">
@@ -30,7 +78,20 @@ const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick }) => {
                 <h4 className={`font-semibold text-slate-800 leading-tight ${depth === 0 ? 'text-lg' : 'text-sm'}`}>
                     {node.label}
                 </h4>
-                <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded ml-2 whitespace-nowrap shrink-0">
+                {refiningNodeId === node.id ? (
+                    <Loader2 className="ml-auto w-3.5 h-3.5 text-indigo-500 animate-spin shrink-0" />
+                ) : onEdit && (
+                    <NodeEditActions
+                        node={node}
+                        isRoot={node.id === data.root.id}
+                        onEdit={onEdit}
+                        onRefine={onRefine}
+                        disabled={!!refiningNodeId}
+                        className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity"
+                    />
+                )}
+                <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded ml-2 whitespace-nowrap shrink-0 flex items-center gap-1">
+                    <VerificationBadge verified={node.verified} originalPageNumber={node.originalPageNumber} />
                     p. {node.pageNumber}
                 </span>
             </div>
@@ -38,10 +99,14 @@ const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick }) => {
             {/* Show summary only if it exists and isn't just the title repeated */}
             {node.summary && node.summary !== node.label && (
                 <p className="text-xs text-slate-500 mt-1 leading-relaxed line-clamp-3">
-                    {node.summary}
+                    <MarkdownContent variant="inline">{node.summary}</MarkdownContent>
                 </p>
             )}
 
+            {onFigureClick && (
+                <FigureChips figureIds={node.figureIds} figures={figures} onFigureClick={onFigureClick} className="mt-1.5" />
+            )}
+
             {node.quote && (
                 <div className="mt-1.5 flex items-center text-[10px] text-indigo-600 font-medium opacity-0 group-hover:opacity-100 transition-opacity">
                     <FileText className="w-3 h-3 mr-1" />
@@ -65,7 +130,17 @@ const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick }) => {
   return (
     <div className="h-full overflow-y-auto p-6 bg-white">
       <div className="max-w-3xl mx-auto">
-        <div className="mb-6 pb-4 border-b border-slate-100 flex items-center gap-2">
+        {/* The hidden synthetic root is edited through the header: add sections here, or drop rows on it to make them top-level */}
+        <div
+            className={`mb-6 pb-4 border-b border-slate-100 flex items-center gap-2 group rounded-lg ${dropTargetId === data.root.id && isSyntheticRoot ? 'ring-2 ring-indigo-200' : ''}`}
+            onDragOver={(e) => {
+                if (!isSyntheticRoot || !canDropOn(data.root.id)) return;
+                e.preventDefault();
+                if (dropTargetId !== data.root.id) setDropTargetId(data.root.id);
+            }}
+            onDragLeave={() => { if (dropTargetId === data.root.id) setDropTargetId(null); }}
+            onDrop={(e) => handleDrop(e, data.root.id)}
+        >
              <div className="bg-indigo-100 p-2 rounded-lg">
                 <Layers className="w-5 h-5 text-indigo-600" />
              </div>
@@ -73,6 +148,9 @@ const OutlineView: React.FC<OutlineViewProps> = ({ data, onNodeClick }) => {
                 <h2 className="text-xl font-bold text-slate-800">Outline & Structure</h2>
                 <p className="text-xs text-slate-500">Table of Contents from Document</p>
              </div>
+             {onEdit && isSyntheticRoot && (
+                <NodeEditActions node={data.root} isRoot onEdit={onEdit} className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity" />
+             )}
         </div>
         
         {nodesToRender.length > 0 ? (
@@ -1,21 +1,57 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { PDFDocumentProxy, PDFRenderTask, TextContent, PDFPageViewport } from '../types';
-import { ZoomIn, ZoomOut, Palette } from 'lucide-react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { PDFDocumentProxy, PDFPageProxy, PDFRenderTask, TextContent, TextContentItem, PDFPageViewport, Annotation, AnnotationDraft, AnnotationRect, OcrPage, PageRegion, PageSearchHit, PaperFigure } from '../types';
+import { ItemRange, findQuoteInItems, findTermInItems, neighborPageOrder } from '../services/textAlignment';
+import { locateSearchHit } from '../services/searchService';
+import { ZoomIn, ZoomOut, Palette, Highlighter, StickyNote } from 'lucide-react';
 
 interface PDFViewerProps {
   file: File | null;
   currentPage: number; 
   highlightText?: string;
+  annotations?: Annotation[];
+  focusedAnnotationId?: string | null;
+  onCreateAnnotation?: (draft: AnnotationDraft, withNote: boolean) => void; // Omitted when the document can't store notes
+  onAnnotationClick?: (id: string) => void;
+  onToggleAnnotations?: () => void;
+  focusedFigure?: PaperFigure | null; // Outlined and scrolled into view
+  ocrPages?: OcrPage[]; // Recognized words of scanned pages
+  searchTerm?: string; // Marked wherever it occurs on rendered pages
+  activeSearchHit?: PageSearchHit | null; // Emphasized and scrolled into view
 }
 
+const NO_ANNOTATIONS: Annotation[] = [];
+
+// Scanned pages have no text layer of their own; their recognized words stand in for it
+const readPageText = (page: PDFPageProxy, ocrItems?: TextContentItem[]): Promise<TextContent> =>
+    ocrItems ? Promise.resolve({ items: ocrItems, styles: {} }) : page.getTextContent();
+
+// Selections report one rect per span and per text run, often duplicated; keep each box once
+const dedupeRects = (rects: AnnotationRect[]): AnnotationRect[] => {
+    const seen = new Set<string>();
+    return rects.filter(rect => {
+        const key = [rect.x, rect.y, rect.width, rect.height].map(v => v.toFixed(3)).join(',');
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
 interface PDFPageProps {
     pdfDoc: PDFDocumentProxy;
     pageNum: number;
     scale: number;
-    highlightText?: string;
+    highlightRanges?: ItemRange[]; // Character ranges of the aligned quote on this page
     highlightColor: string;
     highlightOpacity: number;
+    annotations: Annotation[];
+    focusedAnnotationId?: string | null;
+    onCreateAnnotation?: (draft: AnnotationDraft, withNote: boolean) => void;
+    onAnnotationClick?: (id: string) => void;
     onVisible: (pageNum: number) => void;
+    focusedRegion?: PageRegion;
+    ocrItems?: TextContentItem[];
+    searchTerm?: string;
+    activeSearchHit?: PageSearchHit; // The active search match, when it is on this page
 }
 
 // Sub-component for individual pages
@@ -23,17 +59,31 @@ const PDFPage: React.FC<PDFPageProps> = ({
     pdfDoc, 
     pageNum, 
     scale, 
-    highlightText, 
+    highlightRanges, 
     highlightColor, 
     highlightOpacity,
-    onVisible 
+    annotations,
+    focusedAnnotationId,
+    onCreateAnnotation,
+    onAnnotationClick,
+    onVisible,
+    focusedRegion,
+    ocrItems,
+    searchTerm,
+    activeSearchHit
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const textLayerRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const renderTaskRef = useRef<PDFRenderTask | null>(null);
+    const focusedRegionRef = useRef<HTMLDivElement>(null);
+    const searchLayerRef = useRef<HTMLDivElement | null>(null);
     const [isRendered, setIsRendered] = useState(false);
+    // Text items of the last render; search hits are drawn over them without repainting the page
+    const [renderedText, setRenderedText] = useState<{ content: TextContent; viewport: PDFPageViewport; scale: number } | null>(null);
     const [isVisible, setIsVisible] = useState(false);
+    // Text the user just selected on this page, waiting for "Highlight" or "Note"
+    const [pendingSelection, setPendingSelection] = useState<{ text: string; rects: AnnotationRect[]; anchor: { x: number; y: number } } | null>(null);
 
     useEffect(() => {
         const observer = new IntersectionObserver(
@@ -87,8 +137,9 @@ const PDFPage: React.FC<PDFPageProps> = ({
                     textLayerRef.current.style.width = `${viewport.width}px`;
                     textLayerRef.current.style.height = `${viewport.height}px`;
                     
-                    const textContent = await page.getTextContent();
-                    renderTextLayer(textContent, viewport, textLayerRef.current, highlightText, highlightColor, highlightOpacity);
+                    const textContent = await readPageText(page, ocrItems);
+                    renderTextLayer(textContent, viewport, textLayerRef.current, highlightRanges, highlightColor, highlightOpacity);
+                    setRenderedText({ content: textContent, viewport, scale });
                 }
                 
                 setIsRendered(true);
@@ -107,54 +158,231 @@ const PDFPage: React.FC<PDFPageProps> = ({
                 try { renderTaskRef.current.cancel(); } catch(e) {}
             }
         };
-    }, [isVisible, pdfDoc, pageNum, scale, highlightText, highlightColor, highlightOpacity]);
+    }, [isVisible, pdfDoc, pageNum, scale, highlightRanges, highlightColor, highlightOpacity, ocrItems]);
 
-    const renderTextLayer = (textContent: TextContent, viewport: PDFPageViewport, container: HTMLElement, highlight?: string, color: string = '#fef08a', opacity: number = 0.5) => {
-        const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
-        const cleanHighlight = highlight ? normalize(highlight) : null;
-        
+    // Search hits only rebuild their own layer, so typing a query or stepping through matches never repaints the page
+    useEffect(() => {
+        const layer = searchLayerRef.current;
+        if (!layer || !renderedText) return;
+        layer.innerHTML = '';
+        if (!searchTerm) return;
+
+        const { content, viewport, scale: renderedScale } = renderedText;
+        const activeRects: HTMLDivElement[] = [];
+        const matches = findTermInItems(content.items, searchTerm);
+        const activeIndex = activeSearchHit ? locateSearchHit(matches, activeSearchHit) : -1;
+        matches.forEach((match, matchIndex) => match.ranges.forEach(range => {
+            const active = matchIndex === activeIndex;
+            const rect = drawItemRange(layer, content.items[range.itemIndex], viewport, renderedScale, range, active ? 'search-hit-rect search-hit-active' : 'search-hit-rect');
+            if (active) activeRects.push(rect);
+        }));
+        activeRects[0]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [renderedText, searchTerm, activeSearchHit]);
+
+    // Bring the page on screen so it renders, then center the region once the page has its real size
+    useEffect(() => {
+        if (!focusedRegion) return;
+        if (isRendered) {
+            focusedRegionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        } else {
+            containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        }
+    }, [focusedRegion, isRendered]);
+
+    // Where an item's glyphs sit on the rendered page, in CSS pixels
+    const itemBox = (item: TextContentItem, viewport: PDFPageViewport, renderScale: number) => {
+        const tx = window.pdfjsLib.Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.sqrt((tx[2] * tx[2]) + (tx[3] * tx[3]));
+        return { left: tx[4], top: tx[5] - (fontHeight * 0.8), fontHeight, width: item.width * renderScale };
+    };
+
+    // Highlight only the matched characters, assuming roughly uniform glyph widths within an item
+    const drawItemRange = (layer: HTMLElement, item: TextContentItem, viewport: PDFPageViewport, renderScale: number, range: ItemRange, className: string) => {
+        const box = itemBox(item, viewport, renderScale);
+        const length = Math.max(item.str.length, 1);
+        const rect = document.createElement('div');
+        rect.className = className;
+        rect.style.left = `${box.left + box.width * (range.start / length)}px`;
+        rect.style.top = `${box.top}px`;
+        rect.style.width = `${Math.max(box.width * ((range.end - range.start) / length), 4)}px`;
+        rect.style.height = `${box.fontHeight * 1.2}px`;
+        layer.appendChild(rect);
+        return rect;
+    };
+
+    const renderTextLayer = (
+        textContent: TextContent,
+        viewport: PDFPageViewport,
+        container: HTMLElement,
+        ranges?: ItemRange[],
+        color: string = '#fef08a',
+        opacity: number = 0.5
+    ) => {
         const highlightLayer = document.createElement('div');
         highlightLayer.className = 'pdf-highlight-layer';
         container.appendChild(highlightLayer);
+        // Filled by the search effect
+        const searchLayer = document.createElement('div');
+        searchLayer.className = 'pdf-highlight-layer';
+        container.appendChild(searchLayer);
+        searchLayerRef.current = searchLayer;
 
-        textContent.items.forEach((item) => {
-            const tx = window.pdfjsLib.Util.transform(viewport.transform, item.transform);
-            const fontHeight = Math.sqrt((tx[2] * tx[2]) + (tx[3] * tx[3]));
+        const rangesByItem = new Map<number, ItemRange[]>();
+        ranges?.forEach(range => {
+            rangesByItem.set(range.itemIndex, [...(rangesByItem.get(range.itemIndex) || []), range]);
+        });
+
+        const spans: { span: HTMLSpanElement; width: number }[] = [];
+
+        textContent.items.forEach((item, itemIndex) => {
+            const box = itemBox(item, viewport, scale);
 
             const span = document.createElement('span');
             span.textContent = item.str;
             span.style.fontFamily = item.fontName;
-            span.style.fontSize = `${fontHeight}px`;
-            span.style.left = `${tx[4]}px`;
-            span.style.top = `${tx[5] - (fontHeight * 0.8)}px`; 
+            span.style.fontSize = `${box.fontHeight}px`;
+            span.style.left = `${box.left}px`;
+            span.style.top = `${box.top}px`;
             container.appendChild(span);
+            spans.push({ span, width: box.width });
 
-            if (cleanHighlight && item.str.length > 3) {
-                const cleanStr = normalize(item.str);
-                if (cleanHighlight.includes(cleanStr) || cleanStr.includes(cleanHighlight)) {
-                    const rect = document.createElement('div');
-                    rect.className = 'highlight-rect';
-                    rect.style.backgroundColor = color;
-                    rect.style.opacity = opacity.toString();
-                    rect.style.left = span.style.left;
-                    rect.style.top = span.style.top;
-                    rect.style.width = `${Math.max(item.width * scale, 10)}px`;
-                    rect.style.height = `${fontHeight * 1.2}px`; 
-                    highlightLayer.appendChild(rect);
-                }
-            }
+            if (item.str.length === 0) return;
+            rangesByItem.get(itemIndex)?.forEach(range => {
+                const rect = drawItemRange(highlightLayer, item, viewport, scale, range, 'highlight-rect');
+                rect.style.backgroundColor = color;
+                rect.style.opacity = opacity.toString();
+            });
         });
+
+        // Stretch each span to the glyph run it covers so selections line up with the rendered text.
+        // Measure everything first, then write, to avoid a layout per span.
+        const measured = spans.map(({ span }) => span.offsetWidth);
+        spans.forEach(({ span, width }, index) => {
+            if (measured[index] > 0 && width > 0) span.style.transform = `scaleX(${width / measured[index]})`;
+        });
+    };
+
+    const handleMouseUp = () => {
+        if (!onCreateAnnotation) return;
+        const selection = window.getSelection();
+        const container = containerRef.current;
+        if (!selection || selection.isCollapsed || !container || !textLayerRef.current) return;
+
+        const range = selection.getRangeAt(0);
+        if (!textLayerRef.current.contains(range.commonAncestorContainer)) return;
+        const text = selection.toString().replace(/\s+/g, ' ').trim();
+        if (!text) return;
+
+        const bounds = container.getBoundingClientRect();
+        const rects = dedupeRects(Array.from(range.getClientRects())
+            .filter(rect => rect.width > 1 && rect.height > 1)
+            .map(rect => ({
+                x: (rect.left - bounds.left) / bounds.width,
+                y: (rect.top - bounds.top) / bounds.height,
+                width: rect.width / bounds.width,
+                height: rect.height / bounds.height
+            })));
+        if (rects.length === 0) return;
+
+        const last = rects[rects.length - 1];
+        setPendingSelection({ text, rects, anchor: { x: last.x + last.width, y: last.y + last.height } });
+    };
+
+    const handleCreate = (withNote: boolean) => {
+        if (!pendingSelection || !onCreateAnnotation) return;
+        onCreateAnnotation({ pageNumber: pageNum, text: pendingSelection.text, rects: pendingSelection.rects, color: highlightColor }, withNote);
+        window.getSelection()?.removeAllRanges();
+        setPendingSelection(null);
     };
 
     return (
-        <div ref={containerRef} className="relative shadow-md mb-8 bg-white mx-auto min-h-[600px] transition-all" style={{ width: 'fit-content' }}>
+        <div
+            ref={containerRef}
+            className="relative shadow-md mb-8 bg-white mx-auto min-h-[600px] transition-all"
+            style={{ width: 'fit-content' }}
+            onMouseDown={() => setPendingSelection(null)}
+            onMouseUp={handleMouseUp}
+        >
             <canvas ref={canvasRef} className="block" />
+            {/* User highlights sit under the text layer so the text stays selectable */}
+            <div className="pdf-annotation-layer">
+                {annotations.map(annotation => annotation.rects.map((rect, index) => (
+                    <div
+                        key={`${annotation.id}-${index}`}
+                        className={`absolute rounded-sm ${annotation.id === focusedAnnotationId ? 'ring-2 ring-indigo-500' : ''}`}
+                        style={{
+                            left: `${rect.x * 100}%`,
+                            top: `${rect.y * 100}%`,
+                            width: `${rect.width * 100}%`,
+                            height: `${rect.height * 100}%`,
+                            backgroundColor: annotation.color,
+                            opacity: highlightOpacity
+                        }}
+                    />
+                )))}
+            </div>
             <div ref={textLayerRef} className="pdf-text-layer" />
+
+            {focusedRegion && (
+                <div
+                    ref={focusedRegionRef}
+                    className="absolute pointer-events-none rounded border-2 border-dashed border-indigo-500 bg-indigo-500/5"
+                    style={{
+                        left: `${focusedRegion.x * 100}%`,
+                        top: `${focusedRegion.y * 100}%`,
+                        width: `${focusedRegion.width * 100}%`,
+                        height: `${focusedRegion.height * 100}%`
+                    }}
+                />
+            )}
+
+            {/* Margin markers open the annotation in the notes panel */}
+            {annotations.map(annotation => annotation.rects.length > 0 && (
+                <button
+                    key={annotation.id}
+                    onClick={() => onAnnotationClick?.(annotation.id)}
+                    className="absolute w-5 h-5 -ml-2.5 rounded-full shadow flex items-center justify-center border border-white/60 hover:scale-110 transition-transform"
+                    style={{ left: 'calc(100% + 14px)', top: `${annotation.rects[0].y * 100}%`, backgroundColor: annotation.color }}
+                    title={annotation.note || annotation.text}
+                >
+                    {annotation.note && <StickyNote className="w-3 h-3 text-slate-700" />}
+                </button>
+            ))}
+
+            {pendingSelection && (
+                <div
+                    className="absolute z-20 flex items-center gap-1 bg-slate-900 text-white text-xs rounded-md shadow-lg px-1 py-1"
+                    style={{ left: `${pendingSelection.anchor.x * 100}%`, top: `${pendingSelection.anchor.y * 100}%` }}
+                    // Keep the selection alive while clicking the buttons
+                    onMouseDown={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                    onMouseUp={(e) => e.stopPropagation()}
+                >
+                    <button onClick={() => handleCreate(false)} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700">
+                        <Highlighter className="w-3 h-3" /> Highlight
+                    </button>
+                    <button onClick={() => handleCreate(true)} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700">
+                        <StickyNote className="w-3 h-3" /> Note
+                    </button>
+                </div>
+            )}
         </div>
     );
 };
 
-const PDFViewer: React.FC<PDFViewerProps> = ({ file, currentPage, highlightText }) => {
+const PDFViewer: React.FC<PDFViewerProps> = ({
+  file,
+  currentPage,
+  highlightText,
+  annotations = NO_ANNOTATIONS,
+  focusedAnnotationId,
+  onCreateAnnotation,
+  onAnnotationClick,
+  onToggleAnnotations,
+  focusedFigure,
+  ocrPages,
+  searchTerm,
+  activeSearchHit
+}) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   
   const [pdfDoc, setPdfDoc] = useState<PDFDocumentProxy | null>(null);
@@ -162,6 +390,9 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, currentPage, highlightText
   const [highlightColor, setHighlightColor] = useState('#fef08a');
   const [highlightOpacity, setHighlightOpacity] = useState(0.5);
   const [visiblePage, setVisiblePage] = useState(1);
+  // Where the active quote was actually found, which may differ from the requested page
+  const [highlightTarget, setHighlightTarget] = useState<{ pageNumber: number; ranges: ItemRange[] } | null>(null);
+  const ocrItemsByPage = useMemo(() => new Map((ocrPages || []).map(({ pageNumber, items }) => [pageNumber, items])), [ocrPages]);
 
   useEffect(() => {
     if (!file) return;
@@ -180,13 +411,52 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, currentPage, highlightText
   }, [file]);
 
   useEffect(() => {
-      if (!pdfDoc) return;
+      // The focused figure's page scrolls to the figure itself
+      if (!pdfDoc || focusedFigure?.pageNumber === currentPage) return;
       // Scroll to page with header offset
       const element = document.getElementById(`pdf-page-${currentPage}`);
       if (element) {
           element.scrollIntoView({ behavior: 'smooth', block: 'start' });
       }
-  }, [currentPage, pdfDoc]);
+  }, [currentPage, pdfDoc, focusedFigure]);
+
+  // Align the quote against the requested page, falling back to its neighbors when the page number is off
+  useEffect(() => {
+      setHighlightTarget(null);
+      if (!pdfDoc || !highlightText) return;
+      let cancelled = false;
+
+      const resolve = async () => {
+          for (const pageNumber of neighborPageOrder(currentPage, pdfDoc.numPages)) {
+              try {
+                  const page = await pdfDoc.getPage(pageNumber);
+                  const textContent = await readPageText(page, ocrItemsByPage.get(pageNumber));
+                  if (cancelled) return;
+                  const match = findQuoteInItems(textContent.items, highlightText);
+                  if (match) {
+                      setHighlightTarget({ pageNumber, ranges: match.ranges });
+                      if (pageNumber !== currentPage) {
+                          document.getElementById(`pdf-page-${pageNumber}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+                      }
+                      return;
+                  }
+              } catch (error) {
+                  console.warn(`Could not search page ${pageNumber} for quote`, error);
+              }
+          }
+      };
+      resolve();
+
+      return () => { cancelled = true; };
+  }, [pdfDoc, currentPage, highlightText, ocrItemsByPage]);
+
+  const annotationsByPage = useMemo(() => {
+      const byPage = new Map<number, Annotation[]>();
+      annotations.forEach(annotation => {
+          byPage.set(annotation.pageNumber, [...(byPage.get(annotation.pageNumber) || []), annotation]);
+      });
+      return byPage;
+  }, [annotations]);
 
   const handlePageVisible = useCallback((pageNum: number) => {
       setVisiblePage(pageNum);
@@ -227,6 +497,12 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, currentPage, highlightText
             />
          </div>
          <div className="h-6 w-px bg-slate-700 shrink-0"></div>
+         {onToggleAnnotations && (
+            <button onClick={onToggleAnnotations} className="flex items-center gap-1.5 px-2 py-1 rounded hover:bg-slate-700 shrink-0" title="Notes & Highlights">
+                <Highlighter className="w-3.5 h-3.5 text-slate-300" />
+                <span>{annotations.length}</span>
+            </button>
+         )}
          <div className="flex items-center gap-2 ml-auto shrink-0">
             <button onClick={() => setScale(s => Math.max(s-0.1, 0.5))} className="p-1 hover:bg-slate-700 rounded"><ZoomOut className="w-4 h-4"/></button>
             <span className="w-10 text-center text-slate-400">{Math.round(scale * 100)}%</span>
@@ -250,10 +526,18 @@ const PDFViewer: React.FC<PDFViewerProps> = ({ file, currentPage, highlightText
                         pdfDoc={pdfDoc}
                         pageNum={pageNum}
                         scale={scale}
-                        highlightText={pageNum === currentPage ? highlightText : undefined}
+                        highlightRanges={highlightTarget?.pageNumber === pageNum ? highlightTarget.ranges : undefined}
                         highlightColor={highlightColor}
                         highlightOpacity={highlightOpacity}
+                        annotations={annotationsByPage.get(pageNum) || NO_ANNOTATIONS}
+                        focusedAnnotationId={focusedAnnotationId}
+                        onCreateAnnotation={onCreateAnnotation}
+                        onAnnotationClick={onAnnotationClick}
                         onVisible={handlePageVisible}
+                        focusedRegion={focusedFigure?.pageNumber === pageNum ? focusedFigure.region : undefined}
+                        ocrItems={ocrItemsByPage.get(pageNum)}
+                        searchTerm={searchTerm}
+                        activeSearchHit={activeSearchHit?.pageNumber === pageNum ? activeSearchHit : undefined}
                     />
                   </div>
               ))}
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { BookMarked, ExternalLink, Quote } from 'lucide-react';
+import { Citation, MindMapNode, ReferenceIndex } from '../types';
+import { findSectionForPage } from '../services/mindMapTree';
+
+interface ReferencesViewProps {
+  index: ReferenceIndex | null;
+  root: MindMapNode;
+  onNavigate: (pageNumber: number, quote?: string) => void;
+}
+
+const MAX_AUTHORS_SHOWN = 4;
+
+const ReferencesView: React.FC<ReferencesViewProps> = ({ index, root, onNavigate }) => {
+  const [sectionFilter, setSectionFilter] = useState<string>('all');
+  const [sortByCitations, setSortByCitations] = useState(false);
+
+  const sections = root.children || [];
+
+  // Citations of every reference, grouped by the section of the map that cites it
+  const citedBy = useMemo(() => {
+    const grouped = new Map<string, { section: MindMapNode | null; citations: Citation[] }[]>();
+    index?.citations.forEach(citation => {
+      const section = findSectionForPage(root, citation.pageNumber);
+      const groups = grouped.get(citation.referenceId) || [];
+      const group = groups.find(g => g.section?.id === section?.id);
+      if (group) {
+        group.citations.push(citation);
+      } else {
+        groups.push({ section, citations: [citation] });
+      }
+      grouped.set(citation.referenceId, groups);
+    });
+    return grouped;
+  }, [index, root]);
+
+  const references = useMemo(() => {
+    const citationCount = (id: string) => (citedBy.get(id) || []).reduce((sum, group) => sum + group.citations.length, 0);
+    const filtered = (index?.references || []).filter(reference =>
+      sectionFilter === 'all' || (citedBy.get(reference.id) || []).some(group => group.section?.id === sectionFilter)
+    );
+    return sortByCitations ? [...filtered].sort((a, b) => citationCount(b.id) - citationCount(a.id)) : filtered;
+  }, [index, citedBy, sectionFilter, sortByCitations]);
+
+  if (!index) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-2 p-8 text-center">
+        <BookMarked className="w-8 h-8" />
+        <p className="text-sm">No reference list was found in this document.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto p-6 bg-white">
+      <div className="max-w-3xl mx-auto">
+        <div className="mb-6 pb-4 border-b border-slate-100 flex items-center gap-2">
+          <div className="bg-indigo-100 p-2 rounded-lg">
+            <BookMarked className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">References</h2>
+            <p className="text-xs text-slate-500">
+              {index.references.length} entries from p. {index.startPage} · {index.citations.length} in-text citations ({index.style === 'numeric' ? 'numbered' : 'author–year'})
+            </p>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            <select
+              value={sectionFilter}
+              onChange={(e) => setSectionFilter(e.target.value)}
+              className="text-xs border border-slate-200 rounded-md px-2 py-1 text-slate-600 max-w-[200px]"
+              title="Show only works cited in a section"
+            >
+              <option value="all">All sections</option>
+              {sections.map(section => <option key={section.id} value={section.id}>{section.label}</option>)}
+            </select>
+            <button
+              onClick={() => setSortByCitations(s => !s)}
+              className={`text-xs px-2 py-1 rounded-md border ${sortByCitations ? 'border-indigo-200 bg-indigo-50 text-indigo-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+            >
+              Most cited
+            </button>
+          </div>
+        </div>
+
+        {references.length === 0 && (
+          <div className="text-slate-400 text-center py-10 italic">No works are cited in this section.</div>
+        )}
+
+        <div className="space-y-3">
+          {references.map(reference => {
+            const groups = citedBy.get(reference.id) || [];
+            const shownAuthors = reference.authors.slice(0, MAX_AUTHORS_SHOWN).join(', ');
+            return (
+              <div key={reference.id} className="rounded-lg border border-slate-100 p-3 hover:border-slate-200">
+                <div className="flex items-start gap-2">
+                  <span className="text-[10px] font-bold text-indigo-700 bg-indigo-50 px-1.5 py-0.5 rounded whitespace-nowrap shrink-0 mt-0.5">
+                    {reference.label}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold text-slate-800 leading-snug">{reference.title || reference.raw}</div>
+                    {reference.title && (
+                      <div className="text-xs text-slate-500 mt-0.5">
+                        {shownAuthors}{reference.authors.length > MAX_AUTHORS_SHOWN ? ' et al.' : ''}
+                        {reference.venue && <span className="italic"> · {reference.venue}</span>}
+                        {reference.year && <span> · {reference.year}</span>}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 mt-1.5 text-[11px]">
+                      <button onClick={() => onNavigate(reference.pageNumber, reference.raw.slice(0, 100))} className="text-slate-500 hover:text-indigo-600 hover:underline">
+                        Entry on p. {reference.pageNumber}
+                      </button>
+                      {reference.doi && (
+                        <a href={`https://doi.org/${reference.doi}`} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-indigo-600 hover:underline">
+                          <ExternalLink className="w-3 h-3" /> DOI
+                        </a>
+                      )}
+                      {reference.arxivId && (
+                        <a href={`https://arxiv.org/abs/${reference.arxivId}`} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-indigo-600 hover:underline">
+                          <ExternalLink className="w-3 h-3" /> arXiv:{reference.arxivId}
+                        </a>
+                      )}
+                    </div>
+
+                    <div className="mt-2 space-y-1">
+                      {groups.length === 0 ? (
+                        <div className="text-[11px] text-slate-400 italic">Not cited in the text</div>
+                      ) : groups.map(({ section, citations }) => (
+                        <div key={section?.id || 'none'} className="flex items-start gap-2 text-[11px]">
+                          <Quote className="w-3 h-3 mt-0.5 text-slate-300 shrink-0" />
+                          <span className="text-slate-600 truncate max-w-[220px]" title={section?.label}>{section?.label || 'Document'}</span>
+                          <div className="flex flex-wrap gap-1">
+                            {citations.map((citation, i) => (
+                              <button
+                                key={i}
+                                onClick={() => onNavigate(citation.pageNumber, citation.context)}
+                                className="px-1.5 rounded bg-slate-100 text-slate-600 hover:bg-indigo-100 hover:text-indigo-700"
+                                title={`…${citation.context} ${citation.marker}`}
+                              >
+                                p. {citation.pageNumber}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReferencesView;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Lightbulb, FlaskConical } from 'lucide-react';
 import { MindMapData } from '../types';
+import MarkdownContent from './MarkdownContent';
 
 interface ReportViewProps {
   data: MindMapData;
@@ -20,7 +21,7 @@ const ReportView: React.FC<ReportViewProps> = ({ data }) => {
             </div>
          </div>
          
-         <div className="prose prose-slate prose-sm sm:prose-base max-w-none">
+         <div className="text-sm sm:text-base">
             <div className="bg-amber-50 border border-amber-100 p-4 rounded-lg mb-6 text-amber-900 text-sm flex gap-2">
                 <Lightbulb className="w-5 h-5 shrink-0" />
                 <p className="m-0">
@@ -28,19 +29,11 @@ const ReportView: React.FC<ReportViewProps> = ({ data }) => {
                 </p>
             </div>
 
-            {/* Markdown Rendering */}
-            {data.researchReport.split('\n').map((line, idx) => {
-                const trimmed = line.trim();
-                if (!trimmed) return <div key={idx} className="h-4" />;
-                if (trimmed.startsWith('#')) return <h3 key={idx} className="font-bold text-lg mt-4 mb-2 text-slate-800">{trimmed.replace(/^#+\s*/, '')}</h3>;
-                if (trimmed.startsWith('-')) return <li key={idx} className="ml-4 list-disc marker:text-amber-500">{trimmed.replace(/^-\s*/, '')}</li>;
-                if (trimmed.match(/^\d+\./)) return <li key={idx} className="ml-4 list-decimal marker:text-amber-600 font-medium mt-2">{trimmed.replace(/^\d+\.\s*/, '')}</li>;
-                return <p key={idx} className="mb-2 leading-relaxed text-slate-700">{trimmed}</p>;
-            })}
+            <MarkdownContent className="[&_li]:marker:text-amber-600">{data.researchReport}</MarkdownContent>
          </div>
 
          <div className="mt-8 pt-8 border-t border-slate-100 text-center text-xs text-slate-400">
-            Generated by Gemini 2.5 Flash • Suggestions based on text analysis
+            Generated by {data.generatedBy || 'Gemini 2.5 Flash'} • Suggestions based on text analysis
          </div>
       </div>
     </div>
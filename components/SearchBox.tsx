@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, X, ChevronUp, ChevronDown, FileText, Network } from 'lucide-react';
+import { ActiveSearchHit, SearchResults } from '../types';
+
+interface SearchBoxProps {
+  results: SearchResults;
+  activeHit: ActiveSearchHit | null;
+  hasText: boolean; // Imported analyses come without the paper's text
+  onQueryChange: (query: string) => void;
+  onSelectHit: (hit: ActiveSearchHit) => void;
+}
+
+// Searching every page on each keystroke is wasteful; wait until typing pauses
+const QUERY_DEBOUNCE_MS = 250;
+
+const isSameHit = (a: ActiveSearchHit | null, b: ActiveSearchHit) => {
+  if (!a || a.kind !== b.kind) return false;
+  if (a.kind === 'node' && b.kind === 'node') return a.hit.nodeId === b.hit.nodeId;
+  if (a.kind === 'page' && b.kind === 'page') return a.hit.pageNumber === b.hit.pageNumber && a.hit.occurrence === b.hit.occurrence;
+  return false;
+};
+
+const Snippet: React.FC<{ text: string; start: number; end: number }> = ({ text, start, end }) => (
+  <span className="text-slate-500">
+    {text.slice(0, start)}
+    <mark className="bg-amber-200 text-slate-800 rounded-sm px-0.5">{text.slice(start, end)}</mark>
+    {text.slice(end)}
+  </span>
+);
+
+const SearchBox: React.FC<SearchBoxProps> = ({ results, activeHit, hasText, onQueryChange, onSelectHit }) => {
+  const [input, setInput] = useState(results.query);
+  const [isOpen, setIsOpen] = useState(false);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const activeRowRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => onQueryChange(input), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input, onQueryChange]);
+
+  // Close when clicking anywhere outside the box
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (boxRef.current && !boxRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  // Map matches first (few, and they summarize), then the paper's matches in page order
+  const hits = useMemo<ActiveSearchHit[]>(() => [
+    ...results.nodeHits.map(hit => ({ kind: 'node' as const, hit })),
+    ...results.pageHits.map(hit => ({ kind: 'page' as const, hit }))
+  ], [results]);
+  const activeIndex = hits.findIndex(hit => isSameHit(activeHit, hit));
+
+  useEffect(() => {
+    activeRowRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const step = (direction: 1 | -1) => {
+    if (hits.length === 0) return;
+    const next = activeIndex < 0
+      ? (direction === 1 ? 0 : hits.length - 1)
+      : (activeIndex + direction + hits.length) % hits.length;
+    onSelectHit(hits[next]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      setIsOpen(true);
+      step(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setInput('');
+      setIsOpen(false);
+      e.currentTarget.blur();
+    }
+  };
+
+  const hasQuery = input.trim().length > 0;
+  const isCurrent = results.query === input;
+
+  return (
+    <div ref={boxRef} className="relative">
+      <div className="flex items-center gap-1 border border-slate-200 rounded-md px-2 py-1 focus-within:border-indigo-400 bg-white">
+        <Search className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+        <input
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setIsOpen(true); }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder={hasText ? 'Search paper & map' : 'Search the map'}
+          className="w-40 lg:w-56 text-xs text-slate-700 focus:outline-none bg-transparent"
+        />
+        {hasQuery && (
+          <>
+            <span className="text-[10px] text-slate-400 whitespace-nowrap tabular-nums">
+              {hits.length === 0 ? '0' : `${activeIndex >= 0 ? activeIndex + 1 : '–'} / ${hits.length}${results.truncated ? '+' : ''}`}
+            </span>
+            <button onClick={() => step(-1)} disabled={hits.length === 0} className="p-0.5 rounded text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Previous match (Shift+Enter)">
+              <ChevronUp className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => step(1)} disabled={hits.length === 0} className="p-0.5 rounded text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Next match (Enter)">
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => { setInput(''); setIsOpen(false); }} className="p-0.5 rounded text-slate-400 hover:text-slate-600" title="Clear search (Esc)">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+
+      {isOpen && hasQuery && isCurrent && (
+        <div className="absolute right-0 mt-1 w-96 max-h-[60vh] overflow-y-auto bg-white rounded-lg shadow-lg border border-slate-200 py-1 z-50 text-xs">
+          {hits.length === 0 && (
+            <div className="px-3 py-4 text-center text-slate-400">No matches</div>
+          )}
+          {results.nodeHits.length > 0 && (
+            <div className="px-3 pt-2 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1">
+              <Network className="w-3 h-3" /> Mind map ({results.nodeHits.length})
+            </div>
+          )}
+          {hits.map((hit, index) => (
+            <React.Fragment key={hit.kind === 'node' ? `n-${hit.hit.nodeId}` : `p-${hit.hit.pageNumber}-${hit.hit.occurrence}`}>
+              {hit.kind === 'page' && index === results.nodeHits.length && (
+                <div className="px-3 pt-2 pb-1 text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 border-t border-slate-100 mt-1">
+                  <FileText className="w-3 h-3" /> Paper ({results.pageHits.length}{results.truncated ? '+' : ''})
+                </div>
+              )}
+              <button
+                ref={index === activeIndex ? activeRowRef : undefined}
+                onClick={() => onSelectHit(hit)}
+                className={`w-full text-left px-3 py-1.5 hover:bg-indigo-50 ${index === activeIndex ? 'bg-indigo-50' : ''}`}
+              >
+                {hit.kind === 'node' ? (
+                  <>
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium text-slate-700 truncate">{hit.hit.label}</span>
+                      <span className="ml-auto text-[10px] text-slate-400 shrink-0">{hit.hit.field} · p. {hit.hit.pageNumber}</span>
+                    </span>
+                    {hit.hit.field !== 'label' && (
+                      <span className="block truncate"><Snippet text={hit.hit.snippet} start={hit.hit.matchStart} end={hit.hit.matchEnd} /></span>
+                    )}
+                  </>
+                ) : (
+                  <span className="flex items-start gap-2">
+                    <span className="text-[10px] bg-slate-100 text-slate-500 px-1.5 rounded shrink-0 mt-0.5">p. {hit.hit.pageNumber}</span>
+                    <span className="line-clamp-2"><Snippet text={hit.hit.snippet} start={hit.hit.matchStart} end={hit.hit.matchEnd} /></span>
+                  </span>
+                )}
+              </button>
+            </React.Fragment>
+          ))}
+          {!hasText && (
+            <div className="px-3 py-2 text-[10px] text-slate-400 border-t border-slate-100 mt-1">
+              The paper's text isn't available for this analysis, so only the mind map is searched.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
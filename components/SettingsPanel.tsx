@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { X, Settings, Database, Cpu, Trash2, ScanText } from 'lucide-react';
+import { CacheStats, LLMProvider } from '../types';
+import { clearCache, getCacheStats } from '../services/cacheService';
+import { OCR_LANGUAGES, loadOcrLanguage, saveOcrLanguage } from '../services/ocrService';
+
+interface SettingsPanelProps {
+  provider: LLMProvider;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ provider, onClose }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ocrLanguage, setOcrLanguage] = useState(loadOcrLanguage);
+
+  const handleOcrLanguageChange = (next: string) => {
+    setOcrLanguage(next);
+    saveOcrLanguage(next);
+  };
+
+  const refreshStats = () => {
+    getCacheStats()
+      .then(setStats)
+      .catch((err) => setError(err.message || 'Could not read cache statistics.'));
+  };
+
+  useEffect(refreshStats, []);
+
+  const handleClear = async () => {
+    if (!confirm('Delete all cached analyses? Papers in the library are kept.')) return;
+    try {
+      await clearCache();
+      refreshStats();
+    } catch (err: any) {
+      setError(err.message || 'Could not clear the cache.');
+    }
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2">
+            <Settings className="w-4 h-4 text-indigo-600" /> Settings
+          </h2>
+          <button onClick={onClose} className="p-1 rounded hover:bg-slate-100 text-slate-500">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-6 text-sm">
+          <section>
+            <h3 className="text-[11px] font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+              <Cpu className="w-3 h-3" /> Model
+            </h3>
+            <div className="text-slate-700">{provider.label}</div>
+            <div className="text-xs text-slate-400 font-mono">{provider.id} · {provider.model}</div>
+          </section>
+
+          <section>
+            <h3 className="text-[11px] font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+              <ScanText className="w-3 h-3" /> Scanned Pages
+            </h3>
+            <label className="flex items-center justify-between gap-3 text-slate-700">
+              Text recognition language
+              <select
+                value={ocrLanguage}
+                onChange={(e) => handleOcrLanguageChange(e.target.value)}
+                className="border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-600 focus:outline-none focus:border-indigo-400"
+              >
+                {OCR_LANGUAGES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <div className="text-[11px] text-slate-400 mt-1">Applies to papers read from now on; use Re-analyze for the open one.</div>
+          </section>
+
+          <section>
+            <h3 className="text-[11px] font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+              <Database className="w-3 h-3" /> Analysis Cache
+            </h3>
+            {error && <div className="text-xs text-red-500 mb-2">{error}</div>}
+            {stats ? (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="bg-slate-50 rounded-lg p-2">
+                  <div className="text-lg font-semibold text-slate-800">{stats.entries}</div>
+                  <div className="text-[11px] text-slate-500">cached analyses</div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2">
+                  <div className="text-lg font-semibold text-slate-800">{formatBytes(stats.totalBytes)}</div>
+                  <div className="text-[11px] text-slate-500">storage used</div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2">
+                  <div className="text-lg font-semibold text-slate-800">{stats.hits} / {stats.misses}</div>
+                  <div className="text-[11px] text-slate-500">hits / misses</div>
+                </div>
+                <div className="bg-slate-50 rounded-lg p-2">
+                  <div className="text-lg font-semibold text-slate-800">{lookups ? Math.round((stats.hits / lookups) * 100) : 0}%</div>
+                  <div className="text-[11px] text-slate-500">hit rate</div>
+                </div>
+              </div>
+            ) : (
+              !error && <div className="text-xs text-slate-400">Loading...</div>
+            )}
+            <button
+              onClick={handleClear}
+              className="mt-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 border border-red-100 hover:bg-red-50 rounded-md transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Clear cache
+            </button>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,6 +1,8 @@
 import React from 'react';
 import { FileText } from 'lucide-react';
 import { MindMapData } from '../types';
+import { getLanguageProfile } from '../services/languageService';
+import MarkdownContent from './MarkdownContent';
 
 interface SummaryViewProps {
   data: MindMapData;
@@ -16,22 +18,14 @@ const SummaryView: React.FC<SummaryViewProps> = ({ data }) => {
             </div>
             <div>
                 <h2 className="text-2xl font-bold text-slate-800">Abstract</h2>
-                <p className="text-sm text-slate-500">AI-generated overview (Chinese)</p>
+                <p className="text-sm text-slate-500">AI-generated overview ({getLanguageProfile(data.language).label})</p>
             </div>
          </div>
          
-         <div className="prose prose-slate prose-sm sm:prose-base max-w-none">
-            {data.markdownSummary.split('\n').map((line, idx) => {
-                const trimmed = line.trim();
-                if (!trimmed) return <div key={idx} className="h-4" />;
-                if (trimmed.startsWith('#')) return <h3 key={idx} className="font-bold text-lg mt-4 mb-2">{trimmed.replace(/^#+\s*/, '')}</h3>;
-                if (trimmed.startsWith('-')) return <li key={idx} className="ml-4 list-disc">{trimmed.replace(/^-\s*/, '')}</li>;
-                return <p key={idx} className="mb-2 leading-relaxed text-slate-700">{trimmed}</p>;
-            })}
-         </div>
+         <MarkdownContent className="text-sm sm:text-base">{data.markdownSummary}</MarkdownContent>
 
          <div className="mt-8 pt-8 border-t border-slate-100 text-center text-xs text-slate-400">
-            Generated by Gemini 2.5 Flash based on PDF extraction
+            Generated by {data.generatedBy || 'Gemini 2.5 Flash'} based on PDF extraction
          </div>
       </div>
     </div>
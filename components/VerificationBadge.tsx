@@ -0,0 +1,31 @@
+import React from 'react';
+import { CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface VerificationBadgeProps {
+  verified?: boolean;
+  originalPageNumber?: number;
+}
+
+// Small marker telling whether a node's quote was found in the paper's text
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ verified, originalPageNumber }) => {
+  if (verified === undefined) return null;
+
+  if (verified) {
+    const title = originalPageNumber !== undefined
+      ? `Quote verified (page corrected from p. ${originalPageNumber})`
+      : 'Quote verified in the text';
+    return (
+      <span title={title} className="inline-flex items-center text-emerald-600 shrink-0">
+        <CheckCircle2 className="w-3 h-3" />
+      </span>
+    );
+  }
+
+  return (
+    <span title="Quote not found in the extracted text; the page may be inaccurate" className="inline-flex items-center text-amber-500 shrink-0">
+      <AlertTriangle className="w-3 h-3" />
+    </span>
+  );
+};
+
+export default VerificationBadge;
@@ -0,0 +1,89 @@
+import { Annotation, AnnotationDraft, MindMapData } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from './storageService';
+import { downloadFile, safeFileName } from './exportService';
+import { flattenNodes } from './mindMapTree';
+
+export type AnnotationExportFormat = 'markdown' | 'json';
+
+export const ANNOTATIONS_JSON_FORMAT = 'scholarmind-annotations';
+export const ANNOTATIONS_JSON_VERSION = 1;
+
+export const createAnnotation = (documentId: string, draft: AnnotationDraft): Annotation => {
+  const now = Date.now();
+  return {
+    ...draft,
+    id: `ann-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    documentId,
+    note: '',
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+// Reading order: by page, then top to bottom
+export const compareAnnotations = (a: Annotation, b: Annotation): number =>
+  a.pageNumber - b.pageNumber || (a.rects[0]?.y || 0) - (b.rects[0]?.y || 0);
+
+export const listAnnotations = async (documentId: string): Promise<Annotation[]> => {
+  const db = await openDatabase();
+  const annotations = await requestToPromise<Annotation[]>(
+    db.transaction(STORES.annotations).objectStore(STORES.annotations).index('documentId').getAll(documentId)
+  );
+  return annotations.sort(compareAnnotations);
+};
+
+export const saveAnnotation = async (annotation: Annotation): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.annotations, 'readwrite');
+  transaction.objectStore(STORES.annotations).put(annotation);
+  await transactionDone(transaction);
+};
+
+export const deleteAnnotation = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.annotations, 'readwrite');
+  transaction.objectStore(STORES.annotations).delete(id);
+  await transactionDone(transaction);
+};
+
+// --- Export ---
+const nodeLabels = (data: MindMapData | null): Map<string, string> =>
+  new Map(data ? flattenNodes(data.root).map(node => [node.id, node.label]) : []);
+
+export const exportAnnotationsToMarkdown = (annotations: Annotation[], title: string, data: MindMapData | null): string => {
+  const labels = nodeLabels(data);
+  const lines = [`# ${title} — Notes & Highlights`, ''];
+
+  annotations.forEach(annotation => {
+    lines.push(`> ${annotation.text.replace(/\s*\n\s*/g, ' ')}`);
+    lines.push('');
+    const meta = [`p. ${annotation.pageNumber}`];
+    const label = annotation.nodeId && labels.get(annotation.nodeId);
+    if (label) meta.push(`linked to **${label}**`);
+    lines.push(`_${meta.join(' · ')}_`);
+    if (annotation.note.trim()) {
+      lines.push('', annotation.note.trim());
+    }
+    lines.push('', '---', '');
+  });
+
+  return lines.join('\n');
+};
+
+export const exportAnnotationsToJSON = (annotations: Annotation[], title: string): string =>
+  JSON.stringify({
+    format: ANNOTATIONS_JSON_FORMAT,
+    version: ANNOTATIONS_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    annotations
+  }, null, 2);
+
+export const downloadAnnotations = (format: AnnotationExportFormat, annotations: Annotation[], title: string, data: MindMapData | null) => {
+  const baseName = `${safeFileName(title)}_notes`;
+  if (format === 'json') {
+    downloadFile(exportAnnotationsToJSON(annotations, title), `${baseName}.json`, 'application/json');
+  } else {
+    downloadFile(exportAnnotationsToMarkdown(annotations, title, data), `${baseName}.md`, 'text/markdown');
+  }
+};
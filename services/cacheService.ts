@@ -0,0 +1,105 @@
+import { AnalysisCacheEntry, CacheStats, ExtractedDocument, LLMProvider, MindMapData, OutputLanguage } from '../types';
+import { STORES, hashBytes, openDatabase, requestToPromise, transactionDone } from './storageService';
+import { PROMPT_VERSION } from './geminiService';
+
+// Hit/miss counters are cheap bookkeeping, so they live in localStorage rather than IndexedDB
+const COUNTERS_KEY = 'scholarmind.cacheCounters';
+
+interface CacheLookup {
+  paperId: string;
+  provider: LLMProvider;
+  language: OutputLanguage;
+  ocrLanguage: string; // Scanned pages read in another language give the model different text
+}
+
+const readCounters = (): { hits: number; misses: number } => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(COUNTERS_KEY) || '{}');
+    return { hits: Number(parsed.hits) || 0, misses: Number(parsed.misses) || 0 };
+  } catch (e) {
+    return { hits: 0, misses: 0 };
+  }
+};
+
+const bumpCounter = (counter: 'hits' | 'misses') => {
+  try {
+    const counters = readCounters();
+    counters[counter] += 1;
+    localStorage.setItem(COUNTERS_KEY, JSON.stringify(counters));
+  } catch (e) {
+    // Statistics are best effort
+  }
+};
+
+// Everything that changes the model output must be part of the key; the endpoint tells apart
+// OpenAI-compatible servers that report the same model name (left out of the JSON when undefined)
+export const getAnalysisCacheKey = async ({ paperId, provider, language, ocrLanguage }: CacheLookup): Promise<string> => {
+  const descriptor = JSON.stringify({
+    paperId,
+    provider: provider.id,
+    model: provider.model,
+    endpoint: provider.endpoint,
+    language,
+    ocrLanguage,
+    promptVersion: PROMPT_VERSION
+  });
+  return hashBytes(new TextEncoder().encode(descriptor));
+};
+
+export const getCachedAnalysis = async (lookup: CacheLookup): Promise<AnalysisCacheEntry | null> => {
+  const key = await getAnalysisCacheKey(lookup);
+  const db = await openDatabase();
+  const entry = await requestToPromise<AnalysisCacheEntry | undefined>(
+    db.transaction(STORES.analysisCache).objectStore(STORES.analysisCache).get(key)
+  );
+
+  bumpCounter(entry ? 'hits' : 'misses');
+  return entry || null;
+};
+
+export const putCachedAnalysis = async (lookup: CacheLookup, document: ExtractedDocument, data: MindMapData): Promise<void> => {
+  const key = await getAnalysisCacheKey(lookup);
+  const entry: AnalysisCacheEntry = {
+    key,
+    paperId: lookup.paperId,
+    provider: lookup.provider.id,
+    model: lookup.provider.model,
+    endpoint: lookup.provider.endpoint,
+    language: lookup.language,
+    ocrLanguage: lookup.ocrLanguage,
+    promptVersion: PROMPT_VERSION,
+    document,
+    data,
+    size: new Blob([JSON.stringify({ document, data })]).size,
+    createdAt: Date.now()
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.analysisCache, 'readwrite');
+  transaction.objectStore(STORES.analysisCache).put(entry);
+  await transactionDone(transaction);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const db = await openDatabase();
+  const entries = await requestToPromise<AnalysisCacheEntry[]>(
+    db.transaction(STORES.analysisCache).objectStore(STORES.analysisCache).getAll()
+  );
+  return {
+    entries: entries.length,
+    totalBytes: entries.reduce((sum, entry) => sum + (entry.size || 0), 0),
+    ...readCounters()
+  };
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.analysisCache, 'readwrite');
+  transaction.objectStore(STORES.analysisCache).clear();
+  await transactionDone(transaction);
+  try {
+    localStorage.removeItem(COUNTERS_KEY);
+  } catch (e) {
+    // Ignore, counters will simply keep their values
+  }
+};
@@ -0,0 +1,152 @@
+import { ChatCitation, ChatMessage, ExtractedDocument, ExtractedPage, LLMProvider, OutputLanguage, ResponseSchema } from '../types';
+import { createLLMProvider } from './providers';
+import { formatPagesForPrompt } from './pdfService';
+import { parseJSONResponse } from './geminiService';
+import { DEFAULT_LANGUAGE, describeOutputLanguage } from './languageService';
+import { findQuotePage } from './verificationService';
+
+export interface AskOptions {
+  provider?: LLMProvider;
+  language?: OutputLanguage;
+}
+
+export interface ChatAnswer {
+  answer: string;
+  citations: ChatCitation[];
+}
+
+const ANSWER_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          pageNumber: { type: 'integer' },
+          quote: { type: 'string' }
+        },
+        required: ['pageNumber', 'quote']
+      }
+    }
+  },
+  required: ['answer', 'citations']
+};
+
+// Page text sent per question; longer papers only get the most relevant pages
+const MAX_CONTEXT_CHARS = 60000;
+// Earlier turns kept for follow-up questions
+const MAX_HISTORY_MESSAGES = 6;
+
+const STOPWORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'was', 'were', 'be',
+  'what', 'which', 'how', 'why', 'does', 'do', 'did', 'this', 'that', 'these', 'those', 'it', 'its', 'by',
+  'from', 'as', 'at', 'paper', 'authors', 'they', 'their', 'can', 'about'
+]);
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => token.length > 2 && !STOPWORDS.has(token));
+
+// Rank pages by TF-IDF overlap with the question and keep the best ones within the budget, in page order
+export const selectRelevantPages = (pages: ExtractedPage[], question: string, maxChars: number = MAX_CONTEXT_CHARS): ExtractedPage[] => {
+  const withText = pages.filter(({ text }) => text.trim());
+  const totalChars = withText.reduce((sum, page) => sum + page.text.length, 0);
+  if (totalChars <= maxChars) return withText;
+
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  const pageTokens = withText.map(page => tokenize(page.text));
+  const documentFrequency = new Map<string, number>();
+  pageTokens.forEach(tokens => new Set(tokens).forEach(token => {
+    documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+  }));
+
+  const scored = withText.map((page, index) => {
+    const counts = new Map<string, number>();
+    pageTokens[index].forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    const score = queryTerms.reduce((sum, term) => {
+      const tf = counts.get(term) || 0;
+      if (!tf) return sum;
+      const idf = Math.log(1 + withText.length / (documentFrequency.get(term) || 1));
+      return sum + (1 + Math.log(tf)) * idf;
+    }, 0);
+    // The first pages (abstract, introduction) are a useful default context
+    return { page, score: score + (page.pageNumber <= 2 ? 0.5 : 0) };
+  });
+
+  const selected: ExtractedPage[] = [];
+  let used = 0;
+  scored.sort((a, b) => b.score - a.score).forEach(({ page }) => {
+    if (used + page.text.length > maxChars) return;
+    selected.push(page);
+    used += page.text.length;
+  });
+
+  return selected.sort((a, b) => a.pageNumber - b.pageNumber);
+};
+
+export const askPaper = async (
+  doc: ExtractedDocument,
+  question: string,
+  history: ChatMessage[],
+  options: AskOptions = {}
+): Promise<ChatAnswer> => {
+  const provider = options.provider || createLLMProvider();
+  const language = options.language || DEFAULT_LANGUAGE;
+  const pages = selectRelevantPages(doc.pages, question);
+  const pageNumbers = new Set(pages.map(page => page.pageNumber));
+
+  const conversation = history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+    .join('\n');
+
+  const systemInstruction = `
+    You are an expert academic assistant answering questions about ONE research paper.
+    Answer ONLY from the provided page text. If the pages do not contain the answer, say so plainly instead of guessing.
+
+    CRITICAL INSTRUCTION:
+    ${describeOutputLanguage(language)}
+
+    RULES:
+    - 'answer': A concise, well-structured answer. Refer to evidence with markers like [1], [2] matching the order of 'citations'.
+    - 'citations': Every claim must be backed by a citation.
+      - 'pageNumber': The page (from the "--- PAGE n START ---" markers) the quote comes from.
+      - 'quote': A short verbatim snippet copied exactly from that page (one sentence or less).
+
+    Output pure JSON matching the schema.
+  `;
+
+  const contents = [
+    `## Paper pages`,
+    formatPagesForPrompt(pages),
+    conversation ? `## Conversation so far\n${conversation}` : '',
+    `## Question\n${question}`
+  ].filter(Boolean).join('\n\n');
+
+  try {
+    const data = parseJSONResponse(await provider.generateJSON({
+      task: 'chat',
+      systemInstruction,
+      contents,
+      responseSchema: ANSWER_SCHEMA
+    }));
+
+    // Markers keep the model's numbering so the answer's [n] still match after citations are dropped.
+    // Quotes found in the text link to where they really are; others only survive on pages the model saw
+    const citations: ChatCitation[] = (Array.isArray(data.citations) ? data.citations : [])
+      .flatMap((c: any, index: number): ChatCitation[] => {
+        const quote = typeof c?.quote === 'string' ? c.quote.trim() : '';
+        const suggested = Number(c?.pageNumber);
+        if (!quote) return [];
+        const found = findQuotePage(quote, suggested || 1, doc.pages);
+        if (found === null && !pageNumbers.has(suggested)) return [];
+        return [{ marker: index + 1, pageNumber: found ?? suggested, quote, verified: found !== null }];
+      });
+
+    return { answer: String(data.answer || '').trim(), citations };
+  } catch (error: any) {
+    console.error(`${provider.label} API Error:`, error);
+    throw new Error(`Failed to answer the question: ${error.message || "Unknown AI error"}`);
+  }
+};
@@ -0,0 +1,159 @@
+import { ComparisonCell, ComparisonColumn, ComparisonDimension, ExtractedDocument, LLMProvider, OutputLanguage, PaperProfile, ResponseSchema } from '../types';
+import { createLLMProvider } from './providers';
+import { formatPagesForPrompt } from './pdfService';
+import { parseJSONResponse } from './geminiService';
+import { selectRelevantPages } from './chatService';
+import { findQuotePage } from './verificationService';
+import { getStoredAnalysis, updatePaperDerived } from './libraryService';
+import { DEFAULT_LANGUAGE, describeOutputLanguage } from './languageService';
+import { downloadFile, safeFileName } from './exportService';
+
+// Bump whenever the prompt or schema changes so stored profiles are regenerated
+export const PROFILE_PROMPT_VERSION = 1;
+
+export const COMPARISON_DIMENSIONS: { id: ComparisonDimension; label: string; question: string }[] = [
+  { id: 'problem', label: 'Problem', question: 'Which problem or research question does the paper address?' },
+  { id: 'method', label: 'Method', question: 'What approach, model or technique does it propose or use?' },
+  { id: 'datasets', label: 'Datasets', question: 'Which datasets, corpora or experimental subjects are used?' },
+  { id: 'metrics', label: 'Metrics', question: 'Which evaluation metrics or criteria are reported?' },
+  { id: 'results', label: 'Results', question: 'What are the main quantitative or qualitative results?' },
+  { id: 'limitations', label: 'Limitations', question: 'Which limitations or threats to validity are stated or apparent?' }
+];
+
+// Comparison questions only need the abstract, method and evaluation parts of long papers
+const MAX_CONTEXT_CHARS = 60000;
+const PAGE_SELECTION_QUERY = 'abstract problem method approach model dataset data benchmark metric evaluation accuracy results experiments limitations future work';
+
+const CELL_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    pageNumber: { type: 'integer' },
+    quote: { type: 'string' }
+  },
+  required: ['text', 'pageNumber', 'quote']
+};
+
+const PROFILE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: Object.fromEntries(COMPARISON_DIMENSIONS.map(({ id }) => [id, CELL_SCHEMA])),
+  required: COMPARISON_DIMENSIONS.map(({ id }) => id),
+  propertyOrdering: COMPARISON_DIMENSIONS.map(({ id }) => id)
+};
+
+export interface ProfileOptions {
+  provider?: LLMProvider;
+  language?: OutputLanguage;
+}
+
+// Ask the model for one paper's answer to every comparison dimension, with a supporting quote each
+export const extractPaperProfile = async (doc: ExtractedDocument, title: string, options: ProfileOptions = {}): Promise<PaperProfile> => {
+  const provider = options.provider || createLLMProvider();
+  const language = options.language || DEFAULT_LANGUAGE;
+  const pages = selectRelevantPages(doc.pages, PAGE_SELECTION_QUERY, MAX_CONTEXT_CHARS);
+
+  const systemInstruction = `
+    You are an expert academic assistant preparing a literature review comparison table.
+    Answer each question about the paper "${title}" ONLY from the provided page text.
+
+    CRITICAL INSTRUCTION:
+    ${describeOutputLanguage(language)}
+
+    QUESTIONS:
+${COMPARISON_DIMENSIONS.map(({ id, question }) => `    - '${id}': ${question}`).join('\n')}
+
+    RULES:
+    - 'text': One to three short sentences. Write "Not reported" if the pages don't say.
+    - 'quote': A short verbatim snippet copied exactly from the page that supports the answer (empty if not reported).
+    - 'pageNumber': The page (from the "--- PAGE n START ---" markers) the quote comes from.
+
+    Output pure JSON matching the schema.
+  `;
+
+  try {
+    const data = parseJSONResponse(await provider.generateJSON({
+      task: 'compare-profile',
+      systemInstruction,
+      contents: formatPagesForPrompt(pages),
+      responseSchema: PROFILE_SCHEMA
+    }));
+
+    const cells = Object.fromEntries(COMPARISON_DIMENSIONS.map(({ id }) => {
+      const raw = data[id] || {};
+      const cell: ComparisonCell = { text: String(raw.text || '').trim() || 'Not reported' };
+      const quote = typeof raw.quote === 'string' ? raw.quote.trim() : '';
+      if (quote) {
+        // Same check as mind map nodes: link to where the quote really is, or flag it
+        const suggested = Number(raw.pageNumber) || 1;
+        const found = findQuotePage(quote, suggested, doc.pages);
+        cell.quote = quote;
+        cell.pageNumber = found ?? suggested;
+        cell.verified = found !== null;
+      }
+      return [id, cell];
+    })) as Record<ComparisonDimension, ComparisonCell>;
+
+    return { version: PROFILE_PROMPT_VERSION, language, generatedBy: provider.label, cells };
+  } catch (error: any) {
+    console.error(`${provider.label} API Error:`, error);
+    throw new Error(`Failed to compare "${title}": ${error.message || "Unknown AI error"}`);
+  }
+};
+
+// Stored profile when it matches the current prompt and language, otherwise a fresh one (which is then stored)
+export const loadComparisonColumn = async (paperId: string, options: ProfileOptions & { refresh?: boolean } = {}): Promise<ComparisonColumn> => {
+  const language = options.language || DEFAULT_LANGUAGE;
+  const stored = await getStoredAnalysis(paperId);
+  const column = { paperId, title: stored.paper.title, numPages: stored.paper.numPages };
+
+  const reusable = stored.profile && stored.profile.version === PROFILE_PROMPT_VERSION && stored.profile.language === language;
+  if (reusable && !options.refresh) {
+    return { ...column, profile: stored.profile! };
+  }
+
+  const profile = await extractPaperProfile(stored.document, stored.paper.title, { ...options, language });
+  updatePaperDerived(paperId, { profile }).catch((storageError) => console.warn("Could not store comparison profile:", storageError));
+  return { ...column, profile };
+};
+
+// --- Export ---
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const exportComparisonToMarkdown = (columns: ComparisonColumn[]): string => {
+  const header = `| | ${columns.map(column => escapeCell(column.title)).join(' | ')} |`;
+  const divider = `|---|${columns.map(() => '---').join('|')}|`;
+  const rows = COMPARISON_DIMENSIONS.map(({ id, label }) => {
+    const cells = columns.map(column => {
+      const cell = column.profile?.cells[id];
+      if (!cell) return '';
+      return escapeCell(cell.pageNumber ? `${cell.text} (p. ${cell.pageNumber})` : cell.text);
+    });
+    return `| **${label}** | ${cells.join(' | ')} |`;
+  });
+  return [`# Paper Comparison`, '', header, divider, ...rows, ''].join('\n');
+};
+
+const escapeCSV = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+export const exportComparisonToCSV = (columns: ComparisonColumn[]): string => {
+  const rows = [
+    ['Dimension', ...columns.map(column => column.title)],
+    ...COMPARISON_DIMENSIONS.map(({ id, label }) => [
+      label,
+      ...columns.map(column => {
+        const cell = column.profile?.cells[id];
+        return cell ? (cell.pageNumber ? `${cell.text} (p. ${cell.pageNumber})` : cell.text) : '';
+      })
+    ])
+  ];
+  return rows.map(row => row.map(escapeCSV).join(',')).join('\n');
+};
+
+export const downloadComparison = (format: 'markdown' | 'csv', columns: ComparisonColumn[]) => {
+  const baseName = safeFileName(`comparison_${columns.map(column => column.title).join('_vs_')}`);
+  if (format === 'csv') {
+    downloadFile(exportComparisonToCSV(columns), `${baseName}.csv`, 'text/csv');
+  } else {
+    downloadFile(exportComparisonToMarkdown(columns), `${baseName}.md`, 'text/markdown');
+  }
+};
@@ -0,0 +1,237 @@
+import { Concept, ConceptKind, ConceptMention, ExtractedDocument, ExtractedPage, LibraryPaper, LLMProvider, PaperConcept, PaperConcepts, ResponseSchema } from '../types';
+import { createLLMProvider } from './providers';
+import { formatPagesForPrompt } from './pdfService';
+import { parseJSONResponse } from './geminiService';
+import { selectRelevantPages } from './chatService';
+import { getStoredAnalysis, updatePaperDerived } from './libraryService';
+
+// Bump whenever the prompt or schema changes so stored concept lists are regenerated
+export const CONCEPT_PROMPT_VERSION = 1;
+
+export const CONCEPT_KINDS: { id: ConceptKind; label: string }[] = [
+  { id: 'method', label: 'Method' },
+  { id: 'dataset', label: 'Dataset' },
+  { id: 'metric', label: 'Metric' },
+  { id: 'task', label: 'Task' },
+  { id: 'term', label: 'Term' }
+];
+
+// Concepts live in the abstract, method and evaluation parts of long papers
+const MAX_CONTEXT_CHARS = 60000;
+const PAGE_SELECTION_QUERY = 'abstract introduction method approach model architecture dataset benchmark corpus metric evaluation task related work';
+const MAX_CONCEPTS_PER_PAPER = 30;
+// Single-character names and aliases match far too many words
+const MIN_KEY_LENGTH = 2;
+
+const CONCEPTS_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    concepts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          kind: { type: 'string' },
+          aliases: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['name', 'kind', 'aliases']
+      }
+    }
+  },
+  required: ['concepts']
+};
+
+export interface ConceptOptions {
+  provider?: LLMProvider;
+}
+
+const isConceptKind = (value: unknown): value is ConceptKind =>
+  CONCEPT_KINDS.some(({ id }) => id === value);
+
+// Ask the model for the named methods, datasets, metrics, tasks and terms a paper relies on
+export const extractPaperConcepts = async (doc: ExtractedDocument, title: string, options: ConceptOptions = {}): Promise<PaperConcepts> => {
+  const provider = options.provider || createLLMProvider();
+  const pages = selectRelevantPages(doc.pages, PAGE_SELECTION_QUERY, MAX_CONTEXT_CHARS);
+
+  const systemInstruction = `
+    You are an expert academic assistant building a concept index across a library of papers.
+    List the key concepts of the paper "${title}" found in the provided page text.
+
+    RULES:
+    - At most ${MAX_CONCEPTS_PER_PAPER} concepts, most central first.
+    - 'name': The concept exactly as written in the paper, in its original language (e.g. "Transformer", "ImageNet", "BLEU"). Never translate it.
+    - 'kind': One of ${CONCEPT_KINDS.map(({ id }) => `'${id}'`).join(', ')}.
+    - 'aliases': Abbreviations or other spellings the paper uses for the same concept (e.g. "convolutional neural network" for "CNN"). Empty if none.
+    - Prefer specific named methods, datasets and metrics over generic words like "model" or "results".
+
+    Output pure JSON matching the schema.
+  `;
+
+  try {
+    const data = parseJSONResponse(await provider.generateJSON({
+      task: 'concepts',
+      systemInstruction,
+      contents: formatPagesForPrompt(pages),
+      responseSchema: CONCEPTS_SCHEMA
+    }));
+
+    const concepts: PaperConcept[] = (Array.isArray(data.concepts) ? data.concepts : [])
+      .map((raw: any) => ({
+        name: String(raw?.name || '').trim(),
+        kind: isConceptKind(raw?.kind) ? raw.kind : 'term',
+        aliases: (Array.isArray(raw?.aliases) ? raw.aliases : []).map((alias: unknown) => String(alias).trim()).filter(Boolean)
+      }))
+      .filter((concept: PaperConcept) => concept.name)
+      .slice(0, MAX_CONCEPTS_PER_PAPER);
+
+    return { version: CONCEPT_PROMPT_VERSION, generatedBy: provider.label, concepts };
+  } catch (error: any) {
+    console.error(`${provider.label} API Error:`, error);
+    throw new Error(`Failed to extract concepts from "${title}": ${error.message || "Unknown AI error"}`);
+  }
+};
+
+export interface ConceptSource {
+  paper: LibraryPaper;
+  pages: ExtractedPage[];
+  concepts: PaperConcepts;
+}
+
+// Stored concepts when they match the current prompt, otherwise fresh ones (which are then stored)
+export const loadConceptSource = async (paperId: string, options: ConceptOptions & { refresh?: boolean } = {}): Promise<ConceptSource> => {
+  const stored = await getStoredAnalysis(paperId);
+  const source = { paper: stored.paper, pages: stored.document.pages };
+
+  if (stored.concepts && stored.concepts.version === CONCEPT_PROMPT_VERSION && !options.refresh) {
+    return { ...source, concepts: stored.concepts };
+  }
+
+  const concepts = await extractPaperConcepts(stored.document, stored.paper.title, options);
+  updatePaperDerived(paperId, { concepts }).catch((storageError) => console.warn("Could not store concepts:", storageError));
+  return { ...source, concepts };
+};
+
+// --- Merging ---
+// Lowercase words separated by single spaces, so keys compare across spelling noise
+// (case, accents, hyphens, ligatures) while still matching on word boundaries
+const normalizeTerm = (text: string): string =>
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Naive singular form so "transformers" and "Transformer" share a key
+const termKey = (text: string): string =>
+  normalizeTerm(text).split(' ').map(word => word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word).join(' ');
+
+interface ConceptGroup {
+  keys: Set<string>;
+  names: Map<string, number>; // Spelling → how many papers use it as the name (0 for aliases)
+  kinds: Map<ConceptKind, number>;
+  listedBy: Set<string>;
+}
+
+const mostFrequent = <T>(counts: Map<T, number>): T =>
+  [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+// Merge every paper's concepts into one list: concepts sharing a name or alias become one,
+// then every paper's text is searched for each concept so unlisted mentions are found too
+export const buildConcepts = (sources: ConceptSource[]): Concept[] => {
+  const groups: ConceptGroup[] = [];
+  const groupByKey = new Map<string, ConceptGroup>();
+
+  sources.forEach(({ paper, concepts }) => {
+    concepts.concepts.forEach(concept => {
+      const keys = [concept.name, ...concept.aliases].map(termKey).filter(key => key.length >= MIN_KEY_LENGTH);
+      if (keys.length === 0) return;
+
+      // A concept whose keys touch several groups joins them all into one
+      const touched = [...new Set(keys.map(key => groupByKey.get(key)).filter((group): group is ConceptGroup => !!group))];
+      let group = touched[0];
+      if (!group) {
+        group = { keys: new Set(), names: new Map(), kinds: new Map(), listedBy: new Set() };
+        groups.push(group);
+      }
+      touched.slice(1).forEach(other => {
+        other.keys.forEach(key => group.keys.add(key));
+        other.names.forEach((count, name) => group.names.set(name, (group.names.get(name) || 0) + count));
+        other.kinds.forEach((count, kind) => group.kinds.set(kind, (group.kinds.get(kind) || 0) + count));
+        other.listedBy.forEach(id => group.listedBy.add(id));
+        groups.splice(groups.indexOf(other), 1);
+      });
+
+      keys.forEach(key => group.keys.add(key));
+      group.names.set(concept.name, (group.names.get(concept.name) || 0) + 1);
+      concept.aliases.forEach(alias => group.names.set(alias, group.names.get(alias) || 0));
+      group.kinds.set(concept.kind, (group.kinds.get(concept.kind) || 0) + 1);
+      group.listedBy.add(paper.id);
+      group.keys.forEach(key => groupByKey.set(key, group));
+    });
+  });
+
+  // Normalized page text padded with spaces, so ` key ` only matches whole words
+  const pageTexts = sources.map(({ pages }) =>
+    pages.map(page => ({ pageNumber: page.pageNumber, text: ` ${termKey(page.text)} ` }))
+  );
+
+  return groups
+    .map((group): Concept => {
+      const name = mostFrequent(group.names);
+      const mentions: ConceptMention[] = [];
+      sources.forEach(({ paper }, index) => {
+        const pages = pageTexts[index]
+          .filter(({ text }) => [...group.keys].some(key => text.includes(` ${key} `)))
+          .map(({ pageNumber }) => pageNumber);
+        if (pages.length > 0 || group.listedBy.has(paper.id)) {
+          mentions.push({ paperId: paper.id, pages });
+        }
+      });
+      const aliases = [...group.names.keys()].filter(alias => alias !== name);
+      return { id: [...group.keys].sort()[0], name, kind: mostFrequent(group.kinds), aliases, mentions };
+    })
+    .sort((a, b) => b.mentions.length - a.mentions.length || a.name.localeCompare(b.name));
+};
+
+// --- Network Layout ---
+export interface NetworkPoint {
+  x: number;
+  y: number;
+}
+
+const PAPER_RING_SPACING = 120; // Ring circumference per paper
+const MIN_PAPER_RING_RADIUS = 280;
+const SINGLE_PAPER_OFFSET = 180; // How far concepts of one paper sit outside it
+const CONCEPT_SPACING = 52;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Papers on a ring; each concept at the centre of the papers mentioning it, so concepts shared by
+// the same papers cluster together. Concepts of a single paper sit outside the ring next to it.
+export const layoutConceptNetwork = (paperIds: string[], concepts: Concept[]): Map<string, NetworkPoint> => {
+  const positions = new Map<string, NetworkPoint>();
+  const radius = Math.max(MIN_PAPER_RING_RADIUS, (paperIds.length * PAPER_RING_SPACING) / Math.PI);
+  paperIds.forEach((id, index) => {
+    const angle = (2 * Math.PI * index) / paperIds.length - Math.PI / 2;
+    positions.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  });
+
+  const clusterSizes = new Map<string, number>();
+  concepts.forEach(concept => {
+    const anchors = concept.mentions.map(({ paperId }) => positions.get(paperId)).filter((point): point is NetworkPoint => !!point);
+    if (anchors.length === 0) return;
+
+    let x = anchors.reduce((sum, point) => sum + point.x, 0) / anchors.length;
+    let y = anchors.reduce((sum, point) => sum + point.y, 0) / anchors.length;
+    if (anchors.length === 1) {
+      const length = Math.hypot(x, y) || 1;
+      x += (x / length) * SINGLE_PAPER_OFFSET;
+      y += (y / length) * SINGLE_PAPER_OFFSET;
+    }
+
+    // Spread concepts sharing a centre along a sunflower spiral so they don't overlap
+    const cluster = concept.mentions.map(({ paperId }) => paperId).sort().join('|');
+    const index = clusterSizes.get(cluster) || 0;
+    clusterSizes.set(cluster, index + 1);
+    const distance = CONCEPT_SPACING * Math.sqrt(index);
+    positions.set(concept.id, { x: x + Math.cos(index * GOLDEN_ANGLE) * distance, y: y + Math.sin(index * GOLDEN_ANGLE) * distance });
+  });
+
+  return positions;
+};
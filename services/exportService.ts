@@ -0,0 +1,199 @@
+import { MindMapData, MindMapNode } from '../types';
+
+export type ExportFormat = 'markdown' | 'opml' | 'freemind' | 'json';
+
+// Versioned envelope for the JSON format; bump the version on incompatible changes
+export const MINDMAP_JSON_FORMAT = 'scholarmind-mindmap';
+export const MINDMAP_JSON_VERSION = 1;
+
+export interface MindMapJSONExport {
+  format: typeof MINDMAP_JSON_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  title: string;
+  data: MindMapData;
+}
+
+const EXPORT_FILE_INFO: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  opml: { extension: 'opml', mimeType: 'text/x-opml' },
+  freemind: { extension: 'mm', mimeType: 'application/x-freemind' },
+  json: { extension: 'json', mimeType: 'application/json' }
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\n/g, '&#10;'); // Keep line breaks inside attributes
+
+// Drop the layout fields older versions of the graph view wrote onto nodes (still present in saved analyses)
+const stripLayout = (node: MindMapNode & { width?: number; height?: number; x?: number; y?: number }): MindMapNode => {
+  const { width, height, x, y, children, ...rest } = node;
+  return children && children.length > 0 ? { ...rest, children: children.map(stripLayout) } : rest;
+};
+
+// --- Markdown outline ---
+export const exportToMarkdown = (data: MindMapData, title: string): string => {
+  const lines: string[] = [`# ${title}`, '', '## Abstract', '', data.markdownSummary.trim(), '', '## Mind Map', ''];
+
+  const walk = (node: MindMapNode, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const itemIndent = `${indent}  `;
+    // Multi-line summaries (paragraphs, display math) stay inside the list item when every line is indented to it
+    const summary = node.summary && node.summary !== node.label
+      ? ` — ${node.summary.trim().split(/\r?\n/).map(line => line.trim() ? `${itemIndent}${line}` : '').join('\n').trimStart()}`
+      : '';
+    lines.push(`${indent}- **${node.label.replace(/\s+/g, ' ').trim()}** (p. ${node.pageNumber})${summary}`);
+    if (node.quote) {
+      node.quote.trim().split(/\r?\n/).forEach(line => lines.push(`${itemIndent}> ${line.trim()}`.trimEnd()));
+    }
+    node.children?.forEach(child => walk(child, depth + 1));
+  };
+  walk(data.root, 0);
+
+  lines.push('', '## Research Report', '', data.researchReport.trim(), '');
+  return lines.join('\n');
+};
+
+// --- OPML (Obsidian, Workflowy, most outliners) ---
+export const exportToOPML = (data: MindMapData, title: string): string => {
+  const renderNode = (node: MindMapNode, depth: number): string => {
+    const indent = '    '.repeat(depth + 1);
+    const attrs = [
+      `text="${escapeXml(node.label)}"`,
+      node.summary ? `_note="${escapeXml(node.summary)}"` : '',
+      `_page="${node.pageNumber}"`,
+      node.quote ? `_quote="${escapeXml(node.quote)}"` : ''
+    ].filter(Boolean).join(' ');
+
+    if (!node.children || node.children.length === 0) return `${indent}<outline ${attrs}/>`;
+    return [
+      `${indent}<outline ${attrs}>`,
+      ...node.children.map(child => renderNode(child, depth + 1)),
+      `${indent}</outline>`
+    ].join('\n');
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    `    <outline text="Abstract" _note="${escapeXml(data.markdownSummary)}"/>`,
+    renderNode(data.root, 0),
+    `    <outline text="Research Report" _note="${escapeXml(data.researchReport)}"/>`,
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+// --- FreeMind .mm (also opened by XMind, Freeplane) ---
+export const exportToFreeMind = (data: MindMapData, title: string): string => {
+  const note = (paragraphs: string[]) => [
+    '<richcontent TYPE="NOTE"><html><head></head><body>',
+    ...paragraphs.filter(Boolean).map(p => `<p>${escapeXml(p)}</p>`),
+    '</body></html></richcontent>'
+  ].join('');
+
+  const renderNode = (node: MindMapNode, position?: 'left' | 'right'): string => {
+    const attrs = `ID="${escapeXml(`node_${node.id}`)}" TEXT="${escapeXml(node.label)}"${position ? ` POSITION="${position}"` : ''}`;
+    const body = note([
+      node.summary,
+      node.quote ? `“${node.quote}”` : '',
+      `Page ${node.pageNumber}`
+    ]);
+    const children = (node.children || []).map(child => renderNode(child)).join('');
+    return `<node ${attrs}>${body}${children}</node>`;
+  };
+
+  const sections = (data.root.children || []).map(child => renderNode(child, 'right')).join('');
+  const extras = [
+    `<node TEXT="Abstract" POSITION="left">${note(data.markdownSummary.split('\n'))}</node>`,
+    `<node TEXT="Research Report" POSITION="left">${note(data.researchReport.split('\n'))}</node>`
+  ].join('');
+
+  return `<map version="1.0.1"><node TEXT="${escapeXml(title)}">${note([data.root.summary])}${sections}${extras}</node></map>\n`;
+};
+
+// --- Versioned JSON (round-trips through importMindMapJSON) ---
+export const exportToJSON = (data: MindMapData, title: string): string => {
+  const payload: MindMapJSONExport = {
+    format: MINDMAP_JSON_FORMAT,
+    version: MINDMAP_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    data: { ...data, root: stripLayout(data.root) }
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+const isValidNode = (node: any): node is MindMapNode =>
+  node && typeof node === 'object'
+  && typeof node.id === 'string'
+  && typeof node.label === 'string'
+  && typeof node.pageNumber === 'number'
+  && (node.children === undefined || (Array.isArray(node.children) && node.children.every(isValidNode)));
+
+export const importMindMapJSON = (text: string): MindMapJSONExport => {
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch (e) {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  if (payload?.format !== MINDMAP_JSON_FORMAT) {
+    throw new Error("This JSON file was not exported by ScholarMind.");
+  }
+  if (typeof payload.version !== 'number' || payload.version > MINDMAP_JSON_VERSION) {
+    throw new Error(`Unsupported export version ${payload.version}. Please update ScholarMind.`);
+  }
+  if (!payload.data || !isValidNode(payload.data.root)) {
+    throw new Error("Invalid export: the mind map tree is missing or malformed.");
+  }
+
+  return {
+    ...payload,
+    data: {
+      ...payload.data,
+      markdownSummary: String(payload.data.markdownSummary || ''),
+      researchReport: String(payload.data.researchReport || '')
+    }
+  };
+};
+
+export const serializeMindMap = (format: ExportFormat, data: MindMapData, title: string): string => {
+  switch (format) {
+    case 'markdown': return exportToMarkdown(data, title);
+    case 'opml': return exportToOPML(data, title);
+    case 'freemind': return exportToFreeMind(data, title);
+    case 'json': return exportToJSON(data, title);
+  }
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const safeFileName = (title: string) => title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '_').slice(0, 80) || 'mindmap';
+
+export const downloadMindMap = (format: ExportFormat, data: MindMapData, title: string) => {
+  const { extension, mimeType } = EXPORT_FILE_INFO[format];
+  downloadFile(serializeMindMap(format, data, title), `${safeFileName(title)}.${extension}`, mimeType);
+};
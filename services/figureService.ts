@@ -0,0 +1,167 @@
+import { FigureKind, MindMapData, MindMapNode, PageRegion, PaperFigure, PDFDocumentProxy } from '../types';
+import { PageLayout, TextLine } from './layoutService';
+
+// "Figure 3:", "Fig. 3.", "Table 2 |" or IEEE's bare "TABLE II" line at the start of a line
+const CAPTION_START = /^(Fig(?:ure)?\.?|FIG(?:URE)?\.?|Table|TABLE)\s*(\d+|[IVXL]+)\s*(?:[.:|]|$)/;
+const MAX_CAPTION_LINES = 8;
+// Crops are rendered sharper than the viewer's default zoom
+const SNAPSHOT_SCALE = 2;
+
+const width = (line: TextLine) => line.right - line.left;
+
+const overlaps = (line: TextLine, left: number, right: number) => line.right > left && line.left < right;
+
+const kindOf = (word: string): FigureKind => /^t/i.test(word) ? 'table' : 'figure';
+
+/**
+ * Find captioned figures and tables on one page from the positions of its text.
+ * The graphic itself has no text to go by, so its extent is estimated as the space between
+ * the caption and the nearest line of running text: above the caption for figures, below it for tables
+ * (falling back to the other side when that leaves no room).
+ */
+export const detectFigures = (layout: PageLayout): PaperFigure[] => {
+  const lines = [...layout.lines].sort((a, b) => a.top - b.top || a.left - b.left);
+  if (lines.length === 0) return [];
+
+  const body = layout.bodySize;
+  const contentLeft = Math.min(...lines.map(s => s.left));
+  const contentRight = Math.max(...lines.map(s => s.right));
+  const contentTop = Math.min(...lines.map(s => s.top));
+  const contentBottom = Math.max(...lines.map(s => s.bottom));
+  const middle = (contentLeft + contentRight) / 2;
+
+  // Typical full line of running text; much narrower than the page means a two-column layout
+  const bodyWidths = lines.filter(s => Math.abs(s.size - body) <= body * 0.15).map(width).sort((a, b) => a - b);
+  const lineWidth = bodyWidths[Math.floor(bodyWidths.length * 0.8)] || contentRight - contentLeft;
+  const twoColumns = lineWidth < (contentRight - contentLeft) * 0.6;
+
+  const isProse = (line: TextLine) =>
+    Math.abs(line.size - body) <= body * 0.15
+    && width(line) >= lineWidth * 0.6
+    && (line.text.match(/\p{L}{3,}/gu) || []).length >= 4;
+
+  const figures: PaperFigure[] = [];
+  lines.forEach((line, index) => {
+    const match = line.text.match(CAPTION_START);
+    if (!match) return;
+    const kind = kindOf(match[1]);
+    const number = match[2];
+    if (figures.some(figure => figure.kind === kind && figure.number === number)) return;
+
+    // A caption spanning the gutter belongs to a full-width float
+    const spansColumns = !twoColumns || (line.left < middle - body && line.right > middle + body);
+    const [left, right] = spansColumns
+      ? [contentLeft, contentRight]
+      : (line.left + line.right) / 2 < middle ? [contentLeft, middle] : [middle, contentRight];
+    const inExtent = (s: TextLine) => (s.left + s.right) / 2 >= left && (s.left + s.right) / 2 <= right;
+
+    // Caption lines follow closely at the same size until a paragraph break
+    const captionLines = [line];
+    for (let j = index + 1; j < lines.length && captionLines.length < MAX_CAPTION_LINES; j++) {
+      const next = lines[j];
+      if (!inExtent(next)) continue;
+      const previous = captionLines[captionLines.length - 1];
+      if (next.top - previous.bottom > line.size * 0.5 || Math.abs(next.size - line.size) > line.size * 0.2 || CAPTION_START.test(next.text)) break;
+      captionLines.push(next);
+    }
+    const captionTop = line.top;
+    const captionBottom = Math.max(...captionLines.map(s => s.bottom));
+
+    const proseAbove = lines.filter(s => s.bottom <= captionTop + 1 && overlaps(s, left, right) && isProse(s));
+    const proseBelow = lines.filter(s => s.top >= captionBottom - 1 && overlaps(s, left, right) && isProse(s));
+    const above = { top: Math.max(contentTop, ...proseAbove.map(s => s.bottom)), bottom: captionBottom };
+    const below = { top: captionTop, bottom: Math.min(contentBottom, ...proseBelow.map(s => s.top)) };
+    const graphicRoom = (area: { top: number; bottom: number }) => area.bottom - area.top - (captionBottom - captionTop);
+    const preferred = kind === 'figure' ? above : below;
+    const fallback = kind === 'figure' ? below : above;
+    const area = graphicRoom(preferred) >= body * 2 || graphicRoom(fallback) < body * 2 ? preferred : fallback;
+
+    const padding = body * 0.5;
+    const region: PageRegion = {
+      x: Math.max(0, (left - padding) / layout.width),
+      y: Math.max(0, (area.top - padding) / layout.height),
+      width: Math.min(1, (right - left + padding * 2) / layout.width),
+      height: Math.min(1, (area.bottom - area.top + padding * 2) / layout.height)
+    };
+
+    const caption = captionLines.map(s => s.text).join(' ').slice(match[0].length).replace(/^[\s.:|–—-]+/, '').trim();
+    figures.push({
+      id: `${kind}-${number}`,
+      kind,
+      number,
+      label: `${kind === 'table' ? 'Table' : 'Figure'} ${number}`,
+      caption,
+      pageNumber: layout.pageNumber,
+      region
+    });
+  });
+  return figures;
+};
+
+// Combine per-page detections, keeping ids unique when a label repeats (e.g. a continued table)
+export const mergePageFigures = (pages: PaperFigure[][]): PaperFigure[] => {
+  const seen = new Set<string>();
+  return pages.flat().map(figure => {
+    const id = seen.has(figure.id) ? `${figure.id}-p${figure.pageNumber}` : figure.id;
+    seen.add(id);
+    return { ...figure, id };
+  });
+};
+
+// "Fig. 3" or "Table II", for chips on nodes
+export const shortFigureLabel = (figure: PaperFigure) => `${figure.kind === 'table' ? 'Table' : 'Fig.'} ${figure.number}`;
+
+// "Figure 3", "Figs. 2", "Table IV", "Fig. 1a". Case-sensitive so that Roman numerals stay uppercase
+// and "the table is" isn't read as Table I.
+const MENTION_PATTERN = /\b([Ff]ig(?:ure)?s?\.?|FIG(?:URE)?S?\.?|[Tt]ables?|TABLES?)\s+(\d+|[IVXL]+)(?=[a-z]?\b)/g;
+// Short quotes ("accuracy") would match many captions
+const MIN_CAPTION_QUOTE_LENGTH = 20;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Link nodes to the figures they mention by label, or whose caption they quote
+export const linkFigures = (data: MindMapData, figures: PaperFigure[] = []): MindMapData => {
+  if (figures.length === 0) return data;
+  const byLabel = new Map<string, PaperFigure>();
+  figures.forEach(figure => {
+    const key = `${figure.kind}-${figure.number.toUpperCase()}`;
+    if (!byLabel.has(key)) byLabel.set(key, figure);
+  });
+  const captions = figures.map(figure => ({ id: figure.id, text: normalize(`${figure.label} ${figure.caption}`) }));
+
+  const visit = (node: MindMapNode): MindMapNode => {
+    const children = node.children?.map(visit);
+    const ids = new Set<string>();
+    for (const [, word, number] of `${node.label} ${node.summary} ${node.quote || ''}`.matchAll(MENTION_PATTERN)) {
+      const figure = byLabel.get(`${kindOf(word)}-${number.toUpperCase()}`);
+      if (figure) ids.add(figure.id);
+    }
+    const quote = normalize(node.quote || '');
+    if (quote.length >= MIN_CAPTION_QUOTE_LENGTH) {
+      captions.forEach(caption => { if (caption.text.includes(quote)) ids.add(caption.id); });
+    }
+
+    const { figureIds, ...rest } = node;
+    return ids.size > 0 ? { ...rest, figureIds: [...ids], children } : { ...rest, children };
+  };
+  return { ...data, root: visit(data.root) };
+};
+
+// Render the figure's page off-screen and crop it to the figure's region
+export const renderFigureSnapshot = async (pdfDoc: PDFDocumentProxy, figure: PaperFigure, scale: number = SNAPSHOT_SCALE): Promise<string> => {
+  const page = await pdfDoc.getPage(figure.pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Canvas rendering is not supported in this browser.");
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const { x, y, width: regionWidth, height: regionHeight } = figure.region;
+  const crop = document.createElement('canvas');
+  crop.width = Math.max(1, Math.round(regionWidth * viewport.width));
+  crop.height = Math.max(1, Math.round(regionHeight * viewport.height));
+  crop.getContext('2d')?.drawImage(canvas, x * viewport.width, y * viewport.height, crop.width, crop.height, 0, 0, crop.width, crop.height);
+  return crop.toDataURL('image/png');
+};
@@ -1,108 +1,562 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { MindMapData, MindMapNode } from '../types';
+import { AnalysisOptions, DocumentSection, ExtractedDocument, ExtractedPage, LLMProvider, LLMRequest, MindMapData, MindMapNode, OutputLanguage, ResponseSchema, SubtreeMode } from '../types';
+import { createLLMProvider } from './providers';
+import { formatPagesForPrompt } from './pdfService';
+import { createStreamingJSONParser, StreamedJSONUpdate } from './streamingJsonParser';
+import { verifyMindMap } from './verificationService';
+import { linkFigures } from './figureService';
+import { flattenNodes } from './mindMapTree';
+import { DEFAULT_LANGUAGE, describeHeaderTranslation, describeOutputLanguage, getLanguageProfile } from './languageService';
 
-export const generateMindMap = async (text: string): Promise<MindMapData> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API_KEY is missing. Please ensure it is set in your environment.");
-  }
+// Bump whenever the prompts, schemas or the extracted text they are given change so cached analyses are not reused across versions
+export const PROMPT_VERSION = 5;
+
+const MIND_MAP_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    markdownSummary: { type: 'string' },
+    researchReport: { type: 'string' },
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          parentId: { type: 'string' },
+          label: { type: 'string' },
+          summary: { type: 'string' },
+          quote: { type: 'string' },
+          pageNumber: { type: 'integer' }
+        },
+        required: ['id', 'label', 'summary', 'pageNumber']
+      }
+    }
+  },
+  required: ['markdownSummary', 'researchReport', 'nodes'],
+  // Abstract first so it can be shown while the nodes are still streaming
+  propertyOrdering: ['markdownSummary', 'nodes', 'researchReport']
+};
+
+const CHUNK_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    partialSummary: { type: 'string' },
+    nodes: MIND_MAP_SCHEMA.properties!.nodes
+  },
+  required: ['partialSummary', 'nodes'],
+  propertyOrdering: ['partialSummary', 'nodes']
+};
+
+const SYNTHESIS_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    markdownSummary: { type: 'string' },
+    researchReport: { type: 'string' }
+  },
+  required: ['markdownSummary', 'researchReport'],
+  propertyOrdering: ['markdownSummary', 'researchReport']
+};
+
+const SUBTREE_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    nodes: MIND_MAP_SCHEMA.properties!.nodes
+  },
+  required: ['summary', 'nodes'],
+  propertyOrdering: ['summary', 'nodes']
+};
+
+// Documents longer than this (in characters, roughly 30k tokens) are analyzed in page-range chunks
+const MAX_CHARS_PER_REQUEST = 120000;
+
+const STRUCTURE_RULES = `
+    SCHEMA RULES:
+    - 'parentId' should be null for top-level Section Headers (Level 1).
+    - 'parentId' for subsections should point to their Section's ID.
+    - 'quote': Extract a verbatim text snippet from the PDF, in its original language, for deep linking.
+    - 'pageNumber': Best guess integer.
+`;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Text fields are rendered as Markdown with KaTeX; quotes must stay verbatim to be found in the PDF
+const FORMATTING_RULES = `
+    FORMATTING:
+    - Summaries and reports are Markdown: lists, tables and **emphasis** are welcome.
+    - Write formulas in LaTeX: $...$ inline, $$...$$ on their own line. Escape backslashes as JSON requires.
+    - Never use Markdown or LaTeX in 'label' or 'quote'.
+`;
+
+// The sections found in the PDF before analysis, which the model fills in instead of guessing the structure
+const describeSectionSkeleton = (sections: DocumentSection[], language: OutputLanguage): string => {
+  if (sections.length === 0) return '';
+  const skeleton = sections.map(({ id, parentId, title, pageNumber }) => ({ id, parentId, title, pageNumber }));
+  return `
+    SECTION SKELETON (read from the PDF itself; page numbers are exact):
+    ${JSON.stringify(skeleton)}
+    - Use these entries as the Level 1 and Level 2 nodes: one node per entry, with its 'id', 'parentId' and 'pageNumber' unchanged. Do not add, drop or merge sections.
+    - The 'label' is the entry's title. ${describeHeaderTranslation(language)}. Write 'summary' and 'quote' from that section's text.
+    - Level 3 summary points get new ids and point to the entry they belong to.
+`;
+};
+
+export const generateMindMap = async (doc: ExtractedDocument, options: AnalysisOptions = {}): Promise<MindMapData> => {
+  const provider = options.provider || createLLMProvider();
+  const language = options.language || DEFAULT_LANGUAGE;
+  const analyzedPages = doc.pages.filter(({ text }) => text.trim());
+
+  try {
+    const chunks = chunkPages(analyzedPages, MAX_CHARS_PER_REQUEST);
+    const sections = doc.sections || [];
+    if (sections.length > 0) {
+      options.onProgress?.(`Using ${sections.length} sections detected in the PDF...`);
+    }
+    const analyzed = chunks.length <= 1
+      ? await analyzeSinglePass(doc.text, sections, provider, language, options)
+      : await analyzeInChunks(chunks, sections, provider, language, options);
+
+    // Repair page numbers and flag quotes that don't occur in the paper, then attach the figures nodes discuss
+    options.onProgress?.("Verifying quotes against the text...");
+    const treeData = linkFigures(verifyMindMap(analyzed, doc.pages), doc.figures);
+
+    treeData.generatedBy = provider.label;
+    treeData.language = language;
+    treeData.coverage = {
+      analyzedPages: analyzedPages.length,
+      totalPages: doc.numPages,
+      chunks: Math.max(chunks.length, 1)
+    };
+
+    return treeData;
+
+  } catch (error: any) {
+    console.error(`${provider.label} API Error:`, error);
+    const msg = error.message || "Unknown AI error";
+    throw new Error(`Failed to generate mind map: ${msg}`);
+  }
+};
 
+const analyzeSinglePass = async (
+  text: string,
+  sections: DocumentSection[],
+  provider: LLMProvider,
+  language: OutputLanguage,
+  options: AnalysisOptions
+): Promise<MindMapData> => {
+  const strings = getLanguageProfile(language);
   const systemInstruction = `
     You are an expert academic assistant and translator.
     Your task is to analyze the provided research paper text and generate a structured knowledge graph.
 
     CRITICAL INSTRUCTION:
-    All output must be in **Simplified Chinese (简体中文)**, EXCEPT for the 'quote' field which must remain in the original English.
+    ${describeOutputLanguage(language)}
 
     TASKS:
-    1. **Abstract**: Generate a comprehensive "Executive Summary" (Abstract) in Simplified Chinese.
+    1. **Abstract**: Generate a comprehensive "Executive Summary" (Abstract).
     2. **Structure (Mind Map)**:
        - **Level 1 Nodes**: Must match the paper's actual **Section Headers** (e.g., "1. Introduction").
-         - **ACTION**: Keep the number (1.), but **TRANSLATE the text to Chinese** (e.g., "1. 引言").
+         - **ACTION**: ${describeHeaderTranslation(language)}.
        - **Level 2 Nodes**: Must match the **Subsection Headers** (e.g., "2.1 Methodology").
-         - **ACTION**: Keep the number (2.1), but **TRANSLATE the text to Chinese**.
-       - **Level 3 Nodes**: Summary points. Summarize the key insights of that section in Chinese.
-    3. **Research**: Create a "Future Research & Extension Report" in Chinese.
+         - **ACTION**: Same treatment as Level 1, keeping the number (2.1).
+       - **Level 3 Nodes**: Summary points. Summarize the key insights of that section.
+    3. **Research**: Create a "Future Research & Extension Report".
+${STRUCTURE_RULES}${describeSectionSkeleton(sections, language)}
+${FORMATTING_RULES}
+    Write the fields in this order: markdownSummary, nodes, researchReport.
+    Output pure JSON matching the schema.
+  `;
 
-    SCHEMA RULES:
-    - 'parentId' should be null for top-level Section Headers (Level 1).
-    - 'parentId' for subsections should point to their Section's ID.
-    - 'quote': Extract a verbatim English text snippet from the PDF for deep linking.
-    - 'pageNumber': Best guess integer.
+  // Rebuild the partial tree only when new nodes arrive; the abstract text updates every fragment
+  const streamedNodes: any[] = [];
+  let partialTree = buildTreeFromFlatList(applySectionSkeleton([], sections), language);
+
+  const data = await streamJSON(provider, {
+    task: 'mindmap',
+    systemInstruction,
+    contents: text,
+    responseSchema: MIND_MAP_SCHEMA
+  }, (update) => {
+    const newNodes = update.newItems.filter(item => item.key === 'nodes').map(item => item.value);
+    if (newNodes.length > 0) {
+      streamedNodes.push(...newNodes);
+      partialTree = buildTreeFromFlatList(applySectionSkeleton(streamedNodes, sections), language);
+      options.onProgress?.(`Received ${streamedNodes.length} mind map nodes...`, { nodesReceived: streamedNodes.length });
+    }
+    options.onPartialResult?.({
+      ...partialTree,
+      markdownSummary: update.strings.markdownSummary || '',
+      researchReport: update.strings.researchReport || ''
+    });
+  });
+
+  if (!data.nodes || !Array.isArray(data.nodes)) {
+     throw new Error("Invalid response structure: 'nodes' array missing");
+  }
+
+  // Use the tree builder
+  const treeData = buildTreeFromFlatList(applySectionSkeleton(data.nodes, sections), language);
+
+  treeData.markdownSummary = data.markdownSummary || strings.summaryFailed;
+  treeData.researchReport = data.researchReport || strings.reportFailed;
+
+  return treeData;
+};
+
+// Map-reduce: analyze each page range separately, merge the node lists, then synthesize the abstract & report
+const analyzeInChunks = async (
+  chunks: ExtractedPage[][],
+  sections: DocumentSection[],
+  provider: LLMProvider,
+  language: OutputLanguage,
+  options: AnalysisOptions
+): Promise<MindMapData> => {
+  const strings = getLanguageProfile(language);
+  const partials: { firstPage: number; lastPage: number; partialSummary: string; nodes: any[] }[] = [];
+  // Section ids are shared by every part, so a section continuing across parts merges by id
+  const sectionIds = new Set(sections.map(section => section.id));
+  const mergeParts = (chunkNodes: any[][]) => applySectionSkeleton(mergeChunkNodes(chunkNodes, sectionIds), sections);
+  const formatDigest = (items: { firstPage: number; lastPage: number; partialSummary: string }[]) => items
+    .map(p => `### Pages ${p.firstPage}–${p.lastPage}\n${p.partialSummary}`)
+    .join('\n\n');
+
+  // Sequential on purpose: parallel requests quickly hit provider rate limits
+  for (let i = 0; i < chunks.length; i++) {
+    const pages = chunks[i];
+    const firstPage = pages[0].pageNumber;
+    const lastPage = pages[pages.length - 1].pageNumber;
+    const chunkProgress = { chunk: i + 1, totalChunks: chunks.length };
+    const previousNodeCount = partials.reduce((sum, p) => sum + p.nodes.length, 0);
+    options.onProgress?.(`Analyzing pages ${firstPage}–${lastPage} (part ${i + 1} of ${chunks.length})...`, { ...chunkProgress, nodesReceived: previousNodeCount });
+    const chunkSections = sectionsInRange(sections, firstPage, lastPage);
 
+    const systemInstruction = `
+    You are an expert academic assistant and translator.
+    You are analyzing PART ${i + 1} of ${chunks.length} of a long research paper (pages ${firstPage}–${lastPage}).
+    Other parts are analyzed separately and merged afterwards, so only describe what appears in these pages.
+
+    CRITICAL INSTRUCTION:
+    ${describeOutputLanguage(language)}
+
+    TASKS:
+    1. **Partial Summary**: Summarize the key content of these pages (a few paragraphs).
+    2. **Structure (Mind Map)**:
+       - **Level 1 Nodes**: The **Section Headers** appearing in these pages. ${describeHeaderTranslation(language)}.
+         - If the pages start in the middle of a section, FIRST repeat that section's header as a Level 1 node so it can be merged.
+       - **Level 2 Nodes**: The **Subsection Headers**, same treatment, keeping the number (2.1).
+       - **Level 3 Nodes**: Summary points with the key insights.
+${STRUCTURE_RULES}${describeSectionSkeleton(chunkSections, language)}
+${FORMATTING_RULES}
+    Write the fields in this order: partialSummary, nodes.
     Output pure JSON matching the schema.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: text,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            markdownSummary: { type: Type.STRING },
-            researchReport: { type: Type.STRING },
-            nodes: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.STRING },
-                  parentId: { type: Type.STRING },
-                  label: { type: Type.STRING },
-                  summary: { type: Type.STRING },
-                  quote: { type: Type.STRING },
-                  pageNumber: { type: Type.INTEGER }
-                },
-                required: ['id', 'label', 'summary', 'pageNumber']
-              }
-            }
-          },
-          required: ['markdownSummary', 'researchReport', 'nodes']
-        }
+    const streamedNodes: any[] = [];
+    let partialTree = buildTreeFromFlatList(mergeParts(partials.map(p => p.nodes)), language);
+
+    const data = await streamJSON(provider, {
+      task: 'mindmap-chunk',
+      systemInstruction,
+      contents: formatPagesForPrompt(pages),
+      responseSchema: CHUNK_SCHEMA
+    }, (update) => {
+      const newNodes = update.newItems.filter(item => item.key === 'nodes').map(item => item.value);
+      if (newNodes.length > 0) {
+        streamedNodes.push(...newNodes);
+        partialTree = buildTreeFromFlatList(mergeParts([...partials.map(p => p.nodes), streamedNodes]), language);
+        const nodesReceived = previousNodeCount + streamedNodes.length;
+        options.onProgress?.(`Analyzing pages ${firstPage}–${lastPage} (part ${i + 1} of ${chunks.length}), ${nodesReceived} nodes received...`, { ...chunkProgress, nodesReceived });
       }
+      options.onPartialResult?.({
+        ...partialTree,
+        markdownSummary: formatDigest([...partials, { firstPage, lastPage, partialSummary: update.strings.partialSummary || '' }]),
+        researchReport: ''
+      });
     });
 
-    if (!response.text) {
-      throw new Error("No response text from AI");
-    }
+    partials.push({
+      firstPage,
+      lastPage,
+      partialSummary: data.partialSummary || '',
+      nodes: Array.isArray(data.nodes) ? data.nodes : []
+    });
+  }
 
-    // Clean potential markdown code blocks if the model ignores MIME type
-    const cleanText = response.text.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
-    
-    let data;
-    try {
-      data = JSON.parse(cleanText);
-    } catch (e) {
-      console.error("JSON Parse Error. Raw text:", response.text);
-      throw new Error("Failed to parse AI response as JSON.");
-    }
+  const totalNodes = partials.reduce((sum, p) => sum + p.nodes.length, 0);
+  options.onProgress?.(`Merging ${chunks.length} parts into one mind map...`, { chunk: chunks.length, totalChunks: chunks.length, nodesReceived: totalNodes });
+  const mergedNodes = mergeParts(partials.map(p => p.nodes));
+  if (mergedNodes.length === 0) {
+    throw new Error("Invalid response structure: no nodes returned for any part");
+  }
+  const treeData = buildTreeFromFlatList(mergedNodes, language);
+
+  const outline = treeData.root.children!.map(node => `- ${node.label} (p. ${node.pageNumber})`).join('\n');
+  const digest = formatDigest(partials);
+
+  const synthesis = await streamJSON(provider, {
+    task: 'mindmap-synthesis',
+    systemInstruction: `
+    You are an expert academic assistant.
+    You receive the section outline and partial summaries of a long research paper, written part by part.
+
+    CRITICAL INSTRUCTION:
+    ${describeOutputLanguage(language)}
+
+    TASKS:
+    1. **Abstract**: Merge the partial summaries into one comprehensive "Executive Summary" (Abstract) covering the whole paper.
+    2. **Research**: Create a "Future Research & Extension Report".
+${FORMATTING_RULES}
+    Output pure JSON matching the schema.
+  `,
+    contents: `## Outline\n${outline}\n\n## Partial Summaries\n${digest}`,
+    responseSchema: SYNTHESIS_SCHEMA
+  }, (update) => {
+    options.onPartialResult?.({
+      ...treeData,
+      markdownSummary: update.strings.markdownSummary || digest,
+      researchReport: update.strings.researchReport || ''
+    });
+  });
+
+  treeData.markdownSummary = synthesis.markdownSummary || strings.summaryFailed;
+  treeData.researchReport = synthesis.researchReport || strings.reportFailed;
+
+  return treeData;
+};
+
+// Pages a node covers: from its earliest page to where the next section (in reading order) starts
+export const getSubtreePageRange = (root: MindMapNode, nodeId: string, numPages: number): { firstPage: number; lastPage: number } => {
+  const flat = flattenNodes(root);
+  const index = flat.findIndex(node => node.id === nodeId);
+  if (index < 0) throw new Error("Node not found in the mind map");
+
+  const subtree = flattenNodes(flat[index]);
+  const pages = subtree.map(node => node.pageNumber);
+  const firstPage = Math.max(1, Math.min(...pages));
+  const lastSubtreePage = Math.min(numPages, Math.max(...pages));
+  const next = flat.slice(index + subtree.length).find(node => node.pageNumber >= lastSubtreePage);
+
+  return { firstPage, lastPage: Math.max(lastSubtreePage, Math.min(next ? next.pageNumber : numPages, numPages)) };
+};
+
+// Re-run the analysis for one node on just its pages and return the node with its new children.
+// 'expand' keeps the existing children and appends deeper ones; 'regenerate' replaces summary and children.
+export const generateSubtree = async (
+  doc: ExtractedDocument,
+  root: MindMapNode,
+  nodeId: string,
+  mode: SubtreeMode,
+  options: Pick<AnalysisOptions, 'provider' | 'language'> = {}
+): Promise<MindMapNode> => {
+  const provider = options.provider || createLLMProvider();
+  const language = options.language || DEFAULT_LANGUAGE;
+  const node = flattenNodes(root).find(n => n.id === nodeId);
+  if (!node) throw new Error("Node not found in the mind map");
+
+  const { firstPage, lastPage } = getSubtreePageRange(root, nodeId, doc.numPages);
+  const rangePages = doc.pages.filter(({ pageNumber, text }) => pageNumber >= firstPage && pageNumber <= lastPage && text.trim());
+  // A section longer than one request only gets its opening pages
+  const [pages = []] = chunkPages(rangePages, MAX_CHARS_PER_REQUEST);
+  if (pages.length === 0) throw new Error(`No extractable text on pages ${firstPage}–${lastPage}`);
+
+  const existing = (node.children || []).map(child => `- ${child.label}`).join('\n');
+  const task = mode === 'expand'
+    ? `Break this node down ONE level deeper: list finer-grained sub-points (steps, components, results, definitions) found in these pages.
+       ${existing ? `It already has these children; do NOT repeat them:\n${existing}` : ''}
+       - 'summary': Repeat the node's current summary unchanged.`
+    : `Rebuild this node from scratch.
+       - 'summary': A better, self-contained summary of this node.
+       - 'nodes': Its subsection headers (${describeHeaderTranslation(language)}) and key summary points beneath them.`;
+
+  const systemInstruction = `
+    You are an expert academic assistant and translator.
+    You are refining ONE node of an existing mind map of a research paper, using only pages ${pages[0].pageNumber}–${pages[pages.length - 1].pageNumber}.
+
+    NODE: "${node.label}" — ${node.summary}
+
+    CRITICAL INSTRUCTION:
+    ${describeOutputLanguage(language)}
+
+    TASK:
+    ${task}
 
-    if (!data.nodes || !Array.isArray(data.nodes)) {
-       throw new Error("Invalid response structure: 'nodes' array missing");
+    SCHEMA RULES:
+    - 'parentId' is null for direct children of this node, otherwise the id of another node in your list.
+    - 'quote': Extract a verbatim text snippet from the PDF, in its original language, for deep linking.
+    - 'pageNumber': Best guess integer.
+${FORMATTING_RULES}
+    Output pure JSON matching the schema.
+  `;
+
+  try {
+    const data = parseJSONResponse(await provider.generateJSON({
+      task: 'mindmap-subtree',
+      systemInstruction,
+      contents: formatPagesForPrompt(pages),
+      responseSchema: SUBTREE_SCHEMA
+    }));
+    if (!Array.isArray(data.nodes)) {
+      throw new Error("Invalid response structure: 'nodes' array missing");
     }
-    
-    // Use the tree builder
-    const treeData = buildTreeFromFlatList(data.nodes);
-    
-    treeData.markdownSummary = data.markdownSummary || "Generating summary failed.";
-    treeData.researchReport = data.researchReport || "Generating report failed.";
-    
-    return treeData;
 
+    // Namespace ids so the new nodes can't collide with the rest of the tree
+    const prefix = `${node.id}~${Date.now().toString(36)}-`;
+    const isTopLevel = (parentId: any) => parentId === null || parentId === undefined || parentId === 'null';
+    const namespaced = data.nodes.map((raw: any) => ({
+      ...raw,
+      id: prefix + String(raw.id),
+      parentId: isTopLevel(raw.parentId) ? null : prefix + String(raw.parentId)
+    }));
+    const generated = buildTreeFromFlatList(namespaced, language).root.children || [];
+
+    const refined: MindMapNode = mode === 'expand'
+      ? { ...node, children: [...(node.children || []), ...generated] }
+      : { ...node, summary: String(data.summary || '').trim() || node.summary, children: generated };
+
+    // Same quote checks as a full analysis, applied to the refined subtree
+    return linkFigures(verifyMindMap({ root: refined, markdownSummary: '', researchReport: '' }, doc.pages), doc.figures).root;
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    const msg = error.message || "Unknown AI error";
-    throw new Error(`Failed to generate mind map: ${msg}`);
+    console.error(`${provider.label} API Error:`, error);
+    throw new Error(`Failed to ${mode} "${node.label}": ${error.message || "Unknown AI error"}`);
+  }
+};
+
+// Parse a model answer, tolerating markdown code fences around the JSON
+export const parseJSONResponse = (responseText: string): any => {
+  // Clean potential markdown code blocks if the model ignores MIME type
+  const cleanText = responseText.replace(/^```json\s*/, '').replace(/^```\s*/, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(cleanText);
+  } catch (e) {
+    console.error("JSON Parse Error. Raw text:", responseText);
+    throw new Error("Failed to parse AI response as JSON.");
+  }
+};
+
+// Stream a structured response, reporting partial fields and completed array items as they arrive
+const streamJSON = async (
+  provider: LLMProvider,
+  request: LLMRequest,
+  onUpdate: (update: StreamedJSONUpdate) => void
+): Promise<any> => {
+  const parser = createStreamingJSONParser();
+  for await (const fragment of provider.streamJSON(request)) {
+    onUpdate(parser.push(fragment));
+  }
+
+  if (!parser.text().trim()) {
+    throw new Error("No response text from AI");
   }
+  // The fully parsed document stays authoritative over the incremental view
+  return parseJSONResponse(parser.text().trim());
 };
 
+// Greedily group consecutive pages so each chunk stays under the character budget
+function chunkPages(pages: ExtractedPage[], maxChars: number): ExtractedPage[][] {
+    const chunks: ExtractedPage[][] = [];
+    let current: ExtractedPage[] = [];
+    let currentSize = 0;
+
+    pages.forEach(page => {
+        if (current.length > 0 && currentSize + page.text.length > maxChars) {
+            chunks.push(current);
+            current = [];
+            currentSize = 0;
+        }
+        current.push(page);
+        currentSize += page.text.length;
+    });
+    if (current.length > 0) chunks.push(current);
+
+    return chunks;
+}
+
+const normalizeLabel = (label: string) => String(label || '').toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+// Namespace ids per chunk and fold a section that continues across a chunk boundary into its first occurrence.
+// Reserved (skeleton section) ids keep their name in every chunk.
+function mergeChunkNodes(chunkNodes: any[][], reservedIds: Set<string> = new Set()): any[] {
+    const merged: any[] = [];
+    let lastTopLevel: { id: string; label: string } | null = null;
+
+    chunkNodes.forEach((nodes, chunkIndex) => {
+        const idMap = new Map<string, string>();
+        reservedIds.forEach(id => idMap.set(id, id));
+        nodes.forEach(raw => {
+            if (!reservedIds.has(String(raw.id))) idMap.set(String(raw.id), `c${chunkIndex + 1}-${raw.id}`);
+        });
+
+        const isTopLevel = (raw: any) => raw.parentId === null || raw.parentId === undefined || raw.parentId === "null" || !idMap.has(String(raw.parentId));
+        const topLevel = nodes.filter(isTopLevel);
+
+        // The chunk repeats the header of a section that started in the previous chunk
+        const continued = topLevel[0] && lastTopLevel && !reservedIds.has(String(topLevel[0].id)) && normalizeLabel(topLevel[0].label) === normalizeLabel(lastTopLevel.label)
+            ? topLevel[0]
+            : null;
+        if (continued) idMap.set(String(continued.id), lastTopLevel!.id);
+
+        nodes.forEach(raw => {
+            if (raw === continued) return;
+            merged.push({
+                ...raw,
+                id: idMap.get(String(raw.id)),
+                parentId: isTopLevel(raw) ? null : idMap.get(String(raw.parentId))
+            });
+        });
+
+        const last = topLevel[topLevel.length - 1];
+        if (last) lastTopLevel = { id: idMap.get(String(last.id))!, label: last.label };
+    });
+
+    return merged;
+}
+
+// The skeleton sections a chunk covers, preceded by the section (and subsection) still open at its first page
+function sectionsInRange(sections: DocumentSection[], firstPage: number, lastPage: number): DocumentSection[] {
+    const before = sections.filter(section => section.pageNumber < firstPage);
+    const open = before[before.length - 1];
+    const openParent = open?.parentId ? sections.find(section => section.id === open.parentId) : undefined;
+    const inRange = sections.filter(section => section.pageNumber >= firstPage && section.pageNumber <= lastPage);
+    return [openParent, open, ...inRange].filter((section): section is DocumentSection => !!section);
+}
+
+// Impose the skeleton on the model's flat node list: every section appears once with its detected id, parent and page,
+// taking label, summary and quote from the model's node of the same id. Points the model left without a known parent
+// go to the last section starting on or before their page.
+function applySectionSkeleton(flatNodes: any[], sections: DocumentSection[]): any[] {
+    if (sections.length === 0) return flatNodes;
+    const sectionIds = new Set(sections.map(section => section.id));
+    const written = new Map<string, any>();
+    flatNodes.forEach(raw => {
+        if (sectionIds.has(String(raw.id)) && !written.has(String(raw.id))) written.set(String(raw.id), raw);
+    });
+
+    const sectionNodes = sections.map(section => {
+        const raw = written.get(section.id);
+        return {
+            id: section.id,
+            parentId: section.parentId,
+            label: raw?.label || section.title,
+            summary: raw?.summary || "",
+            quote: raw?.quote || "",
+            pageNumber: section.pageNumber
+        };
+    });
+
+    const points = flatNodes.filter(raw => !sectionIds.has(String(raw.id)));
+    const pointIds = new Set(points.map(raw => String(raw.id)));
+    const pageOf = (raw: any) => typeof raw.pageNumber === 'number' ? raw.pageNumber : 1;
+    const sectionAt = (page: number) => [...sections].reverse().find(section => section.pageNumber <= page) || sections[0];
+    const attached = points.map(raw => {
+        const parentId = raw.parentId === null || raw.parentId === undefined ? '' : String(raw.parentId);
+        return sectionIds.has(parentId) || pointIds.has(parentId) ? raw : { ...raw, parentId: sectionAt(pageOf(raw)).id };
+    });
+
+    // Siblings in page order; on the same page a section comes before points
+    return [...sectionNodes, ...attached].sort((a, b) => pageOf(a) - pageOf(b));
+}
+
 // Helper to reconstruct the tree from the flat list
-function buildTreeFromFlatList(flatNodes: any[]): MindMapData {
+function buildTreeFromFlatList(flatNodes: any[], language: OutputLanguage): MindMapData {
+    const strings = getLanguageProfile(language);
     const nodeMap = new Map<string, MindMapNode>();
 
     // 1. Initialize all nodes
@@ -112,7 +566,7 @@ function buildTreeFromFlatList(flatNodes: any[]): MindMapData {
         
         nodeMap.set(safeId, {
             id: safeId,
-            label: raw.label || "未命名", // Chinese default
+            label: raw.label || strings.untitled,
             summary: raw.summary || "",
             quote: raw.quote || "",
             pageNumber: typeof raw.pageNumber === 'number' ? raw.pageNumber : 1,
@@ -123,8 +577,8 @@ function buildTreeFromFlatList(flatNodes: any[]): MindMapData {
     // 2. Create a Synthetic Root to hold the entire paper structure
     const syntheticRoot: MindMapNode = {
         id: 'root-synthetic',
-        label: '文档概览', // Document Overview in Chinese
-        summary: '论文交互式导图',
+        label: strings.rootLabel,
+        summary: strings.rootSummary,
         pageNumber: 1,
         children: []
     };
@@ -0,0 +1,230 @@
+import { EdgeType, FontSize, HandleSide, MindMapOptions } from '../types';
+import { downloadFile, safeFileName } from './exportService';
+
+// A laid-out node as positioned in the graph view (top-left origin)
+export interface ImageExportNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  summary: string;
+  pageNumber: number;
+}
+
+export interface ImageExportEdge {
+  source: string;
+  target: string;
+  sourceSide: HandleSide;
+  targetSide: HandleSide;
+}
+
+export interface RenderedSVG {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const PADDING = 40;
+const FONT_FAMILY = "Inter, 'Helvetica Neue', Arial, sans-serif";
+// Mirrors the Tailwind classes used by the graph node (text-xs / text-sm / text-base)
+const LABEL_FONT_PX: Record<FontSize, number> = { small: 12, medium: 14, large: 16 };
+const SUMMARY_FONT_PX = 12;
+const EDGE_COLOR = '#94a3b8';
+
+// Browsers refuse canvases beyond these limits (Chrome: 16384px per side, ~268M pixels)
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 200_000_000;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Rough glyph width: CJK characters are square, Latin averages ~0.55em
+const charWidth = (char: string, fontPx: number) => (/[⺀-￯]/.test(char) ? fontPx : fontPx * 0.55);
+
+// Greedy wrap to a pixel width, clamping to maxLines with an ellipsis (like CSS line-clamp)
+const wrapText = (text: string, maxWidth: number, fontPx: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  let lineWidth = 0;
+  // Split into words but keep CJK characters individually breakable
+  const tokens = text.replace(/\s+/g, ' ').trim().match(/[⺀-￯]|[^\s⺀-￯]+|\s/g) || [];
+
+  for (const token of tokens) {
+    const tokenWidth = Array.from(token).reduce((sum, c) => sum + charWidth(c, fontPx), 0);
+    if (lineWidth + tokenWidth > maxWidth && line.trim()) {
+      lines.push(line.trim());
+      line = '';
+      lineWidth = 0;
+      if (lines.length === maxLines) break;
+      if (token === ' ') continue;
+    }
+    line += token;
+    lineWidth += tokenWidth;
+  }
+  if (lines.length < maxLines && line.trim()) lines.push(line.trim());
+
+  const consumed = lines.join(' ').length;
+  if (lines.length === maxLines && consumed < text.trim().length - 1) {
+    lines[maxLines - 1] = lines[maxLines - 1].replace(/.{0,2}$/, '…');
+  }
+  return lines;
+};
+
+const SIDE_NORMALS: Record<HandleSide, [number, number]> = { left: [-1, 0], right: [1, 0], top: [0, -1], bottom: [0, 1] };
+
+// Middle of the given side of a node, where ReactFlow puts its handle
+const anchor = (node: ImageExportNode, side: HandleSide): [number, number] => {
+  const [nx, ny] = SIDE_NORMALS[side];
+  return [node.x + node.width / 2 * (1 + nx), node.y + node.height / 2 * (1 + ny)];
+};
+
+// SVG path between two handles, matching ReactFlow's edge styles
+const edgePath = (source: [number, number], sourceSide: HandleSide, target: [number, number], targetSide: HandleSide, type: EdgeType): string => {
+  const [sx, sy] = source;
+  const [tx, ty] = target;
+  const vertical = sourceSide === 'top' || sourceSide === 'bottom';
+  switch (type) {
+    case 'straight':
+      return `M ${sx} ${sy} L ${tx} ${ty}`;
+    case 'step':
+    case 'smoothstep': {
+      // Route along the edge's main axis and across it, so top-down edges reuse the left-to-right logic
+      const [sm, sc] = vertical ? [sy, sx] : [sx, sy];
+      const [tm, tc] = vertical ? [ty, tx] : [tx, ty];
+      const point = (main: number, cross: number) => (vertical ? `${cross} ${main}` : `${main} ${cross}`);
+      const mid = (sm + tm) / 2;
+      if (Math.abs(tc - sc) < 1) return `M ${sx} ${sy} L ${tx} ${ty}`;
+      const radius = type === 'smoothstep' ? Math.min(5, Math.abs(tc - sc) / 2, Math.abs(mid - sm)) : 0;
+      const mainDir = tm >= sm ? 1 : -1;
+      const crossDir = tc > sc ? 1 : -1;
+      return [
+        `M ${point(sm, sc)}`,
+        `L ${point(mid - mainDir * radius, sc)}`,
+        `Q ${point(mid, sc)} ${point(mid, sc + crossDir * radius)}`,
+        `L ${point(mid, tc - crossDir * radius)}`,
+        `Q ${point(mid, tc)} ${point(mid + mainDir * radius, tc)}`,
+        `L ${point(tm, tc)}`
+      ].join(' ');
+    }
+    case 'simplebezier':
+    case 'default':
+    default: {
+      const offset = Math.max(Math.abs(vertical ? ty - sy : tx - sx) / 2, 40);
+      const [snx, sny] = SIDE_NORMALS[sourceSide];
+      const [tnx, tny] = SIDE_NORMALS[targetSide];
+      return `M ${sx} ${sy} C ${sx + snx * offset} ${sy + sny * offset}, ${tx + tnx * offset} ${ty + tny * offset}, ${tx} ${ty}`;
+    }
+  }
+};
+
+const renderNode = (node: ImageExportNode, labelPx: number): string => {
+  const innerWidth = node.width - 32;
+  const labelLines = wrapText(node.label, innerWidth - 48, labelPx, 2);
+  const summaryTop = node.y + 12 + labelLines.length * labelPx * 1.25 + 14;
+  const summaryLines = wrapText(node.summary || '', innerWidth, SUMMARY_FONT_PX, 3);
+  const pageBadge = `Pg ${node.pageNumber}`;
+  const badgeWidth = pageBadge.length * 6 + 10;
+
+  return [
+    `<g>`,
+    `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="8" fill="#ffffff" stroke="#e2e8f0" filter="url(#shadow)"/>`,
+    `<text x="${node.x + 16}" y="${node.y + 12 + labelPx}" font-size="${labelPx}" font-weight="700" fill="#1e293b">`,
+    ...labelLines.map((line, i) => `<tspan x="${node.x + 16}" dy="${i === 0 ? 0 : labelPx * 1.25}">${escapeXml(line)}</tspan>`),
+    `</text>`,
+    `<rect x="${node.x + node.width - 16 - badgeWidth}" y="${node.y + 12}" width="${badgeWidth}" height="16" rx="3" fill="#f1f5f9"/>`,
+    `<text x="${node.x + node.width - 16 - badgeWidth / 2}" y="${node.y + 24}" font-size="10" font-family="monospace" text-anchor="middle" fill="#64748b">${pageBadge}</text>`,
+    `<line x1="${node.x + 16}" y1="${summaryTop - 8}" x2="${node.x + node.width - 16}" y2="${summaryTop - 8}" stroke="#f8fafc"/>`,
+    `<text x="${node.x + 16}" y="${summaryTop + SUMMARY_FONT_PX}" font-size="${SUMMARY_FONT_PX}" fill="#64748b">`,
+    ...summaryLines.map((line, i) => `<tspan x="${node.x + 16}" dy="${i === 0 ? 0 : SUMMARY_FONT_PX * 1.6}">${escapeXml(line)}</tspan>`),
+    `</text>`,
+    `</g>`
+  ].join('');
+};
+
+// Render the whole laid-out graph (not just the viewport) as a standalone SVG document
+export const renderMindMapSVG = (nodes: ImageExportNode[], edges: ImageExportEdge[], options: MindMapOptions): RenderedSVG => {
+  if (nodes.length === 0) throw new Error("There is nothing to export.");
+
+  const minX = Math.min(...nodes.map(n => n.x)) - PADDING;
+  const minY = Math.min(...nodes.map(n => n.y)) - PADDING;
+  const maxX = Math.max(...nodes.map(n => n.x + n.width)) + PADDING;
+  const maxY = Math.max(...nodes.map(n => n.y + n.height)) + PADDING;
+  const width = Math.ceil(maxX - minX);
+  const height = Math.ceil(maxY - minY);
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const edgeMarkup = edges.map(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target) return '';
+    const d = edgePath(anchor(source, edge.sourceSide), edge.sourceSide, anchor(target, edge.targetSide), edge.targetSide, options.edgeType);
+    return `<path d="${d}" fill="none" stroke="${EDGE_COLOR}" stroke-width="2" marker-end="url(#arrow)"/>`;
+  }).join('');
+
+  const labelPx = LABEL_FONT_PX[options.fontSize];
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<defs>`,
+    `<marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${EDGE_COLOR}"/></marker>`,
+    `<filter id="shadow" x="-5%" y="-5%" width="110%" height="120%"><feDropShadow dx="0" dy="2" stdDeviation="2" flood-color="#0f172a" flood-opacity="0.08"/></filter>`,
+    `</defs>`,
+    `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#f8fafc"/>`,
+    edgeMarkup,
+    nodes.map(node => renderNode(node, labelPx)).join(''),
+    `</svg>`
+  ].join('');
+
+  return { svg, width, height };
+};
+
+// Rasterize through an <img> so the PNG matches the SVG exactly, at a high-DPI scale
+export const renderSVGToPNG = (rendered: RenderedSVG, scale: number = Math.max(2, window.devicePixelRatio || 1)): Promise<Blob> => {
+  const maxScale = Math.min(
+    MAX_CANVAS_SIDE / rendered.width,
+    MAX_CANVAS_SIDE / rendered.height,
+    Math.sqrt(MAX_CANVAS_AREA / (rendered.width * rendered.height))
+  );
+  const effectiveScale = Math.min(scale, maxScale);
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([rendered.svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.floor(rendered.width * effectiveScale);
+      canvas.height = Math.floor(rendered.height * effectiveScale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error("Canvas is not supported in this browser."));
+        return;
+      }
+      context.scale(effectiveScale, effectiveScale);
+      context.drawImage(image, 0, 0, rendered.width, rendered.height);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode PNG.")), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to rasterize the mind map."));
+    };
+    image.src = url;
+  });
+};
+
+export const downloadMindMapImage = async (
+  format: 'svg' | 'png',
+  nodes: ImageExportNode[],
+  edges: ImageExportEdge[],
+  options: MindMapOptions,
+  title: string
+) => {
+  const rendered = renderMindMapSVG(nodes, edges, options);
+  if (format === 'svg') {
+    downloadFile(rendered.svg, `${safeFileName(title)}.svg`, 'image/svg+xml');
+  } else {
+    downloadFile(await renderSVGToPNG(rendered), `${safeFileName(title)}.png`, 'image/png');
+  }
+};
@@ -0,0 +1,107 @@
+import { OutputLanguage } from '../types';
+
+export interface LanguageProfile {
+  id: OutputLanguage;
+  label: string; // Shown in the header selector
+  promptName: string; // How the prompts refer to the language
+  headerExample: string; // Translated "1. Introduction" used as an example in the prompt
+  // Fallback strings for nodes the model leaves incomplete
+  untitled: string;
+  rootLabel: string;
+  rootSummary: string;
+  summaryFailed: string;
+  reportFailed: string;
+}
+
+const ENGLISH: Omit<LanguageProfile, 'id' | 'label' | 'promptName' | 'headerExample'> = {
+  untitled: 'Untitled',
+  rootLabel: 'Document Overview',
+  rootSummary: 'Interactive paper map',
+  summaryFailed: 'Generating summary failed.',
+  reportFailed: 'Generating report failed.'
+};
+
+export const LANGUAGE_PROFILES: LanguageProfile[] = [
+  {
+    id: 'zh-CN',
+    label: '简体中文',
+    promptName: 'Simplified Chinese (简体中文)',
+    headerExample: '1. 引言',
+    untitled: '未命名',
+    rootLabel: '文档概览',
+    rootSummary: '论文交互式导图',
+    summaryFailed: '摘要生成失败。',
+    reportFailed: '研究报告生成失败。'
+  },
+  {
+    id: 'en',
+    label: 'English',
+    promptName: 'English',
+    headerExample: '1. Introduction',
+    ...ENGLISH
+  },
+  {
+    id: 'de',
+    label: 'Deutsch',
+    promptName: 'German (Deutsch)',
+    headerExample: '1. Einleitung',
+    untitled: 'Unbenannt',
+    rootLabel: 'Dokumentübersicht',
+    rootSummary: 'Interaktive Übersicht des Papers',
+    summaryFailed: 'Zusammenfassung konnte nicht erstellt werden.',
+    reportFailed: 'Forschungsbericht konnte nicht erstellt werden.'
+  },
+  {
+    // The paper's language is only known to the model, so fallbacks stay in English
+    id: 'original',
+    label: 'Paper language',
+    promptName: "the paper's original language",
+    headerExample: '1. Introduction',
+    ...ENGLISH
+  }
+];
+
+export const DEFAULT_LANGUAGE: OutputLanguage = 'zh-CN';
+
+const STORAGE_KEY = 'scholarmind.outputLanguage';
+
+export const getLanguageProfile = (language: OutputLanguage = DEFAULT_LANGUAGE): LanguageProfile =>
+  LANGUAGE_PROFILES.find(profile => profile.id === language) || LANGUAGE_PROFILES[0];
+
+// Prompt fragment stating which language every field except 'quote' must use
+export const describeOutputLanguage = (language: OutputLanguage): string => {
+  if (language === 'original') {
+    return `All output must be written in **the same language as the paper itself** (do not translate), including the 'quote' field which must stay verbatim.`;
+  }
+  const { promptName } = getLanguageProfile(language);
+  return `All output must be in **${promptName}**, EXCEPT for the 'quote' field which must remain verbatim in the paper's original language.`;
+};
+
+// Prompt fragment telling the model how to treat section header text
+export const describeHeaderTranslation = (language: OutputLanguage): string => {
+  if (language === 'original') {
+    return `Keep the number and the header text exactly as written in the paper`;
+  }
+  const { promptName, headerExample } = getLanguageProfile(language);
+  return `Keep the number (1.), but **write the text in ${promptName}** (e.g., "${headerExample}")`;
+};
+
+export const loadOutputLanguage = (): OutputLanguage => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && LANGUAGE_PROFILES.some(profile => profile.id === stored)) {
+      return stored as OutputLanguage;
+    }
+  } catch (e) {
+    // Storage may be unavailable (private mode, sandboxed iframe)
+  }
+  return DEFAULT_LANGUAGE;
+};
+
+export const saveOutputLanguage = (language: OutputLanguage) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (e) {
+    console.warn('Could not persist output language', e);
+  }
+};
@@ -0,0 +1,296 @@
+import { ExtractedPage, PDFPageViewport, TextContentItem } from '../types';
+
+// A run of text on one line; a gap wider than the font splits a line into several (columns, table cells)
+export interface TextLine {
+  text: string;
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  size: number; // Font size in viewport pixels
+  fontName: string; // pdf.js font id of the line's longest run; bold and italic faces get their own
+}
+
+export interface LayoutLine extends TextLine {
+  paragraphStart: boolean;
+  footnote: boolean;
+}
+
+// Geometry of one page, kept until every page is read so repeated headers and footers can be recognized
+export interface PageLayout {
+  pageNumber: number;
+  width: number;
+  height: number;
+  bodySize: number; // Font size of the running text
+  lines: LayoutLine[]; // In reading order
+  rotatedText: string; // Text not set horizontally (margin stamps, rotated tables), in stream order
+}
+
+// Share of the page height at the top and bottom where running headers and footers sit
+const MARGIN_ZONE = 0.1;
+// A margin line is a running header/footer when it recurs on this share of the pages
+const REPEAT_SHARE = 0.4;
+const PAGE_NUMBER = /^(?:page\s*)?(?:\d{1,4}|[ivxlc]{1,6})(?:\s*(?:of|\/)\s*\d{1,4})?$/i;
+const FOOTNOTE_MARKER = /^[\d*†‡§¶]/;
+
+// Same product as pdfjsLib.Util.transform, so layout analysis doesn't depend on the global being loaded
+const multiply = (m1: number[], m2: number[]) => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5]
+];
+
+interface Glyph {
+  text: string;
+  left: number;
+  right: number;
+  baseline: number;
+  size: number;
+  fontName: string;
+}
+
+const toGlyph = (item: TextContentItem, viewport: PDFPageViewport, scale: number): Glyph & { horizontal: boolean } => {
+  const tx = multiply(viewport.transform, item.transform);
+  const size = Math.hypot(tx[2], tx[3]) || item.height * scale || 1;
+  // Some producers write zero widths; estimate from the character count instead
+  const width = item.width > 0 ? item.width * scale : item.str.length * size * 0.5;
+  return {
+    text: item.str,
+    left: tx[4],
+    right: tx[4] + width,
+    baseline: tx[5],
+    size,
+    fontName: item.fontName,
+    horizontal: tx[0] > 0 && Math.abs(tx[1]) <= tx[0] * 0.1
+  };
+};
+
+// Rebuild lines from the positions of horizontal text, split wherever the gap exceeds the font size
+const buildLines = (glyphs: Glyph[]): TextLine[] => {
+  const sorted = [...glyphs].sort((a, b) => a.baseline - b.baseline || a.left - b.left);
+
+  // Items within half a line of each other share a baseline (superscripts included)
+  const rows: Glyph[][] = [];
+  sorted.forEach(glyph => {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].baseline - glyph.baseline) < Math.min(row[0].size, glyph.size) * 0.5) {
+      row.push(glyph);
+    } else {
+      rows.push([glyph]);
+    }
+  });
+
+  return rows.flatMap(row => {
+    const lines: TextLine[] = [];
+    const longestRun = new Map<TextLine, number>();
+    [...row].sort((a, b) => a.left - b.left).forEach(glyph => {
+      const top = glyph.baseline - glyph.size;
+      const bottom = glyph.baseline + glyph.size * 0.25; // Room for descenders
+      const current = lines[lines.length - 1];
+      const gap = current ? glyph.left - current.right : Infinity;
+      if (current && gap < Math.max(current.size, glyph.size)) {
+        // Word-per-item producers leave the spaces out; a visible gap stands for one
+        const separator = gap > glyph.size * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(glyph.text) ? ' ' : '';
+        current.text += separator + glyph.text;
+        current.right = Math.max(current.right, glyph.right);
+        current.top = Math.min(current.top, top);
+        current.bottom = Math.max(current.bottom, bottom);
+        current.size = Math.max(current.size, glyph.size);
+        if (glyph.text.length > (longestRun.get(current) || 0)) {
+          current.fontName = glyph.fontName;
+          longestRun.set(current, glyph.text.length);
+        }
+      } else {
+        const line = { text: glyph.text, left: glyph.left, right: glyph.right, top, bottom, size: glyph.size, fontName: glyph.fontName };
+        lines.push(line);
+        longestRun.set(line, glyph.text.length);
+      }
+    });
+    return lines.map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }));
+  }).filter(line => line.text);
+};
+
+// The font size carrying the most characters is the body text
+const bodyFontSize = (lines: TextLine[]): number => {
+  const weights = new Map<number, number>();
+  lines.forEach(line => {
+    const key = Math.round(line.size * 2) / 2;
+    weights.set(key, (weights.get(key) || 0) + line.text.length);
+  });
+  return [...weights].sort((a, b) => b[1] - a[1])[0]?.[0] || 10;
+};
+
+// Put lines in reading order: for two-column pages, lines spanning the gutter (titles, wide
+// figures) split the page into bands, and each band is read left column first, then right
+const orderColumns = (lines: TextLine[]): TextLine[][] => {
+  if (lines.length === 0) return [];
+  const left = Math.min(...lines.map(line => line.left));
+  const right = Math.max(...lines.map(line => line.right));
+  const middle = (left + right) / 2;
+  const tolerance = (right - left) * 0.02;
+
+  const crosses = (line: TextLine) => line.left < middle - tolerance && line.right > middle + tolerance;
+  const chars = (selected: TextLine[]) => selected.reduce((sum, line) => sum + line.text.length, 0);
+  const total = chars(lines);
+  const leftChars = chars(lines.filter(line => line.right <= middle + tolerance));
+  const rightChars = chars(lines.filter(line => line.left >= middle - tolerance));
+  const twoColumns = chars(lines.filter(crosses)) < total * 0.35 && leftChars > total * 0.15 && rightChars > total * 0.15;
+  if (!twoColumns) return [lines];
+
+  const flows: TextLine[][] = [];
+  let band: TextLine[] = [];
+  const closeBand = () => {
+    const leftColumn = band.filter(line => (line.left + line.right) / 2 < middle);
+    const rightColumn = band.filter(line => (line.left + line.right) / 2 >= middle);
+    if (leftColumn.length > 0) flows.push(leftColumn);
+    if (rightColumn.length > 0) flows.push(rightColumn);
+    band = [];
+  };
+  lines.forEach(line => {
+    if (crosses(line)) {
+      closeBand();
+      flows.push([line]);
+    } else {
+      band.push(line);
+    }
+  });
+  closeBand();
+  return flows;
+};
+
+// Mark where paragraphs begin within one column: a font change, extra spacing, an indented
+// first line, or a short previous line ending a sentence. `carried` is the last line of the
+// previous column, whose paragraph may continue here.
+const markParagraphs = (flow: TextLine[], bodySize: number, pageHeight: number, carried?: TextLine): LayoutLine[] => {
+  const columnLeft = Math.min(...flow.map(line => line.left));
+  const columnRight = Math.max(...flow.map(line => line.right));
+  // Page numbers and footers below the footnotes are at body size too, so leave the bottom margin out
+  const lastBodyBottom = Math.max(0, ...flow
+    .filter(line => line.size >= bodySize * 0.9 && line.bottom <= pageHeight * (1 - MARGIN_ZONE))
+    .map(line => line.bottom));
+
+  let inFootnotes = false;
+  return flow.map((line, index) => {
+    const previous = flow[index - 1] || carried;
+    // Footnotes: smaller text below the column's running text, starting with a marker
+    if (!inFootnotes && line.top >= lastBodyBottom && line.top > pageHeight * 0.6 && line.size < bodySize * 0.9 && FOOTNOTE_MARKER.test(line.text)) {
+      inFootnotes = true;
+      return { ...line, paragraphStart: true, footnote: true };
+    }
+    if (inFootnotes) {
+      return { ...line, paragraphStart: FOOTNOTE_MARKER.test(line.text) && line.left <= columnLeft + line.size, footnote: true };
+    }
+
+    // Cells of a table row stay together
+    if (previous && previous !== carried && Math.abs(line.top - previous.top) < previous.size * 0.5) {
+      return { ...line, paragraphStart: false, footnote: false };
+    }
+    const paragraphStart = !previous
+      || Math.abs(line.size - previous.size) > previous.size * 0.15
+      || (line.top - previous.bottom > previous.size * 0.6 && line.top > previous.top)
+      || line.left > columnLeft + line.size * 0.8
+      // Only within a column: the previous column has its own right edge
+      || (previous !== carried && previous.right < columnRight - line.size * 3 && /[.:!?]$/.test(previous.text));
+    return { ...line, paragraphStart, footnote: false };
+  });
+};
+
+/**
+ * Analyze one page's text items: rebuild lines from their positions, order them by column and
+ * mark paragraph starts and footnotes. Text that isn't horizontal is kept aside in stream order.
+ */
+export const analyzePageLayout = (items: TextContentItem[], viewport: PDFPageViewport, pageNumber: number): PageLayout => {
+  const scale = Math.hypot(viewport.transform[0], viewport.transform[1]) || 1;
+  const horizontal: Glyph[] = [];
+  // Rotated text has no columns to speak of; hasEOL still tells where its lines end
+  let rotatedText = '';
+  items.filter(item => item.str.trim()).forEach(item => {
+    const glyph = toGlyph(item, viewport, scale);
+    if (glyph.horizontal) {
+      horizontal.push(glyph);
+    } else {
+      rotatedText += item.str + (item.hasEOL ? '\n' : ' ');
+    }
+  });
+
+  const lines = buildLines(horizontal).sort((a, b) => a.top - b.top || a.left - b.left);
+  const bodySize = bodyFontSize(lines);
+  const flows = orderColumns(lines);
+  return {
+    pageNumber,
+    width: viewport.width,
+    height: viewport.height,
+    bodySize,
+    lines: flows.flatMap((flow, index) => markParagraphs(flow, bodySize, viewport.height, flows[index - 1]?.[flows[index - 1].length - 1])),
+    rotatedText: rotatedText.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim()
+  };
+};
+
+// Digits vary between pages ("Page 3", "Vol. 12, 2021 · 457"), so compare margin lines without them
+const marginKey = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+const inMargin = (line: TextLine, layout: PageLayout) =>
+  line.top < layout.height * MARGIN_ZONE || line.bottom > layout.height * (1 - MARGIN_ZONE);
+
+// Lines that are running headers, footers or page numbers, as "page:index" keys
+const findPageFurniture = (layouts: PageLayout[]): Set<string> => {
+  const pagesWithKey = new Map<string, Set<number>>();
+  layouts.forEach(layout => layout.lines.forEach(line => {
+    if (!inMargin(line, layout)) return;
+    const key = marginKey(line.text);
+    pagesWithKey.set(key, (pagesWithKey.get(key) || new Set()).add(layout.pageNumber));
+  }));
+
+  const minPages = Math.max(2, Math.ceil(layouts.length * REPEAT_SHARE));
+  const furniture = new Set<string>();
+  layouts.forEach(layout => layout.lines.forEach((line, index) => {
+    if (!inMargin(line, layout)) return;
+    if (PAGE_NUMBER.test(line.text) || (pagesWithKey.get(marginKey(line.text))?.size || 0) >= minPages) {
+      furniture.add(`${layout.pageNumber}:${index}`);
+    }
+  }));
+  return furniture;
+};
+
+// Join two lines of a paragraph, undoing hyphenation at the line break ("repre-" + "sentation").
+// Compounds that already contain a hyphen ("state-of-the-" + "art") keep it.
+const joinLine = (paragraph: string, line: string): string => {
+  if (!paragraph) return line;
+  const hyphenated = paragraph.match(/(\S*\p{L})[-\u00AD]$/u);
+  if (hyphenated && /^\p{Ll}/u.test(line)) {
+    return hyphenated[1].includes('-') ? paragraph + line : paragraph.slice(0, -1) + line;
+  }
+  return `${paragraph} ${line}`;
+};
+
+const toParagraphs = (lines: LayoutLine[]): string[] => {
+  const paragraphs: string[] = [];
+  lines.forEach(line => {
+    if (line.paragraphStart || paragraphs.length === 0) {
+      paragraphs.push(line.text);
+    } else {
+      paragraphs[paragraphs.length - 1] = joinLine(paragraphs[paragraphs.length - 1], line.text);
+    }
+  });
+  return paragraphs;
+};
+
+/**
+ * Turn the analyzed pages into page text: running headers, footers and page numbers are dropped,
+ * paragraphs are separated by blank lines, and footnotes and rotated text follow the page's body.
+ */
+export const composePageTexts = (layouts: PageLayout[]): ExtractedPage[] => {
+  const furniture = findPageFurniture(layouts);
+  return layouts.map(layout => {
+    const kept = layout.lines.filter((_, index) => !furniture.has(`${layout.pageNumber}:${index}`));
+    const paragraphs = [
+      ...toParagraphs(kept.filter(line => !line.footnote)),
+      ...toParagraphs(kept.filter(line => line.footnote)),
+      ...(layout.rotatedText ? [layout.rotatedText] : [])
+    ];
+    return { pageNumber: layout.pageNumber, text: paragraphs.join('\n\n') };
+  });
+};
@@ -0,0 +1,164 @@
+import { ExtractedDocument, LibraryPaper, LibraryPaperContents, MindMapData, PaperConcepts, PaperMetadata, PaperProfile } from '../types';
+import { STORES, hashBytes, openDatabase, requestToPromise, transactionDone } from './storageService';
+
+export interface StoredAnalysis {
+  paper: LibraryPaper;
+  document: ExtractedDocument;
+  data: MindMapData;
+  profile?: PaperProfile;
+  concepts?: PaperConcepts;
+}
+
+export interface OpenedPaper {
+  paper: LibraryPaper;
+  file: File;
+  document: ExtractedDocument;
+  data: MindMapData;
+}
+
+export const titleFromFileName = (fileName: string) => fileName.replace(/\.pdf$/i, '').replace(/[_]+/g, ' ').trim() || fileName;
+
+export const getPaperId = async (file: File): Promise<string> => hashBytes(await file.arrayBuffer());
+
+// Store (or overwrite) a paper together with its analysis; returns the content hash id
+export const savePaper = async (file: File, document: ExtractedDocument, data: MindMapData): Promise<string> => {
+  const pdfData = await file.arrayBuffer();
+  const id = await hashBytes(pdfData);
+  const db = await openDatabase();
+
+  const transaction = db.transaction([STORES.papers, STORES.paperContents], 'readwrite');
+  const papers = transaction.objectStore(STORES.papers);
+  const contentsStore = transaction.objectStore(STORES.paperContents);
+  const existing = await requestToPromise<LibraryPaper | undefined>(papers.get(id));
+  const existingContents = await requestToPromise<LibraryPaperContents | undefined>(contentsStore.get(id));
+  const now = Date.now();
+
+  const paper: LibraryPaper = {
+    id,
+    title: existing?.title || titleFromFileName(file.name),
+    fileName: file.name,
+    fileSize: file.size,
+    numPages: document.numPages,
+    addedAt: existing?.addedAt || now,
+    lastOpenedAt: now
+  };
+  // Keep what was derived from the PDF itself (e.g. the comparison profile) across re-analyses
+  const contents: LibraryPaperContents = { ...existingContents, id, pdfData, document, data };
+
+  papers.put(paper);
+  contentsStore.put(contents);
+  await transactionDone(transaction);
+
+  return id;
+};
+
+// Most recently opened first
+export const listPapers = async (): Promise<LibraryPaper[]> => {
+  const db = await openDatabase();
+  const papers = await requestToPromise<LibraryPaper[]>(
+    db.transaction(STORES.papers).objectStore(STORES.papers).getAll()
+  );
+  return papers.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+export const openPaper = async (id: string): Promise<OpenedPaper> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.papers, STORES.paperContents], 'readwrite');
+  const papers = transaction.objectStore(STORES.papers);
+
+  const paper = await requestToPromise<LibraryPaper | undefined>(papers.get(id));
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(
+    transaction.objectStore(STORES.paperContents).get(id)
+  );
+  if (!paper || !contents) {
+    throw new Error("This paper is no longer in the library.");
+  }
+
+  const updated = { ...paper, lastOpenedAt: Date.now() };
+  papers.put(updated);
+  await transactionDone(transaction);
+
+  return {
+    paper: updated,
+    file: new File([contents.pdfData], paper.fileName, { type: 'application/pdf' }),
+    document: contents.document,
+    data: contents.data
+  };
+};
+
+// Read a paper's analysis without loading it into the viewer (no lastOpenedAt bump)
+export const getStoredAnalysis = async (id: string): Promise<StoredAnalysis> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.papers, STORES.paperContents]);
+  const paper = await requestToPromise<LibraryPaper | undefined>(transaction.objectStore(STORES.papers).get(id));
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(
+    transaction.objectStore(STORES.paperContents).get(id)
+  );
+  if (!paper || !contents) {
+    throw new Error("This paper is no longer in the library.");
+  }
+  return { paper, document: contents.document, data: contents.data, profile: contents.profile, concepts: contents.concepts };
+};
+
+// Store results derived from a paper's text (comparison profile, concepts) next to it
+export const updatePaperDerived = async (id: string, derived: Partial<Pick<LibraryPaperContents, 'profile' | 'concepts'>>): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.paperContents, 'readwrite');
+  const store = transaction.objectStore(STORES.paperContents);
+
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(store.get(id));
+  if (!contents) throw new Error("This paper is no longer in the library.");
+
+  store.put({ ...contents, ...derived });
+  await transactionDone(transaction);
+};
+
+// The stored bibliographic record, or null for papers not (yet) in the library
+export const getPaperMetadata = async (id: string): Promise<PaperMetadata | null> => {
+  const db = await openDatabase();
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(
+    db.transaction(STORES.paperContents).objectStore(STORES.paperContents).get(id)
+  );
+  return contents?.metadata || null;
+};
+
+// Store the paper's bibliographic record; its title also becomes the library title
+export const updatePaperMetadata = async (id: string, metadata: PaperMetadata): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.papers, STORES.paperContents], 'readwrite');
+  const papers = transaction.objectStore(STORES.papers);
+  const contentsStore = transaction.objectStore(STORES.paperContents);
+
+  const paper = await requestToPromise<LibraryPaper | undefined>(papers.get(id));
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(contentsStore.get(id));
+  if (!paper || !contents) throw new Error("This paper is no longer in the library.");
+
+  papers.put({ ...paper, title: metadata.title || paper.title });
+  contentsStore.put({ ...contents, metadata });
+  await transactionDone(transaction);
+};
+
+// Replace the stored analysis of a paper, e.g. after the user edits it
+export const updatePaperData = async (id: string, data: MindMapData): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORES.paperContents, 'readwrite');
+  const store = transaction.objectStore(STORES.paperContents);
+
+  const contents = await requestToPromise<LibraryPaperContents | undefined>(store.get(id));
+  if (!contents) throw new Error("This paper is no longer in the library.");
+
+  store.put({ ...contents, data });
+  await transactionDone(transaction);
+};
+
+// Removes the paper together with the user's annotations on it
+export const deletePaper = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORES.papers, STORES.paperContents, STORES.annotations], 'readwrite');
+  transaction.objectStore(STORES.papers).delete(id);
+  transaction.objectStore(STORES.paperContents).delete(id);
+  const annotations = transaction.objectStore(STORES.annotations);
+  const annotationIds = await requestToPromise(annotations.index('documentId').getAllKeys(id));
+  annotationIds.forEach(key => annotations.delete(key));
+  await transactionDone(transaction);
+};
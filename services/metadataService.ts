@@ -0,0 +1,208 @@
+import { ExtractedDocument, LLMProvider, PaperMetadata, PdfInfo, PublicationType, ResponseSchema } from '../types';
+import { createLLMProvider } from './providers';
+import { formatPagesForPrompt } from './pdfService';
+import { parseJSONResponse } from './geminiService';
+import { downloadFile, safeFileName } from './exportService';
+
+export const PUBLICATION_TYPES: { id: PublicationType; label: string }[] = [
+  { id: 'article', label: 'Journal article' },
+  { id: 'inproceedings', label: 'Conference paper' },
+  { id: 'preprint', label: 'Preprint' },
+  { id: 'thesis', label: 'Thesis' },
+  { id: 'book', label: 'Book' },
+  { id: 'misc', label: 'Other' }
+];
+
+// Title, authors and venue are on the first page; the second catches cover pages
+const METADATA_PAGES = 2;
+
+const METADATA_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    authors: { type: 'array', items: { type: 'string' } },
+    venue: { type: 'string' },
+    year: { type: 'string' }
+  },
+  required: ['type', 'title', 'authors', 'venue', 'year']
+};
+
+// --- Heuristics ---
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/;
+const ARXIV_PATTERN = /arXiv:\s?(\d{4}\.\d{4,5})(?:v\d+)?/i;
+
+// Authoring tools often leave file names or placeholders in the Title field
+const isPlausibleTitle = (title?: string): title is string =>
+  !!title && title.length >= 8 && !/\.(pdf|docx?|tex|dvi)$/i.test(title) && !/^(untitled|microsoft word|arxiv|slide)/i.test(title);
+
+const yearFromPdfDate = (date?: string) => date?.match(/^(?:D:)?((?:19|20)\d{2})/)?.[1];
+
+// arXiv ids start with YYMM
+const yearFromArxivId = (id?: string) => id ? `20${id.slice(0, 2)}` : undefined;
+
+// What can be read without a model: identifiers from the text and the information dictionary
+export const extractMetadataHeuristics = (doc: ExtractedDocument, fileTitle: string): PaperMetadata => {
+  const text = doc.pages.slice(0, METADATA_PAGES).map(page => page.text).join(' ');
+  const info: PdfInfo = doc.info || {};
+  const doi = text.match(DOI_PATTERN)?.[0].replace(/[.,;)\]]+$/, '');
+  const arxivId = text.match(ARXIV_PATTERN)?.[1];
+
+  return {
+    type: arxivId ? 'preprint' : 'article',
+    title: isPlausibleTitle(info.title) ? info.title : fileTitle,
+    authors: info.author ? info.author.split(/\s*(?:;|,|\band\b)\s*/).filter(Boolean) : [],
+    year: yearFromArxivId(arxivId) || text.match(/©\s*((?:19|20)\d{2})/)?.[1] || yearFromPdfDate(info.creationDate),
+    doi,
+    arxivId,
+    edited: false
+  };
+};
+
+const isPublicationType = (value: unknown): value is PublicationType =>
+  PUBLICATION_TYPES.some(({ id }) => id === value);
+
+// Read title, authors, venue and year from the first pages; identifiers come from the text itself.
+// Falls back to the heuristics alone when the model is unavailable, since metadata is never essential.
+export const extractPaperMetadata = async (doc: ExtractedDocument, fileTitle: string, options: { provider?: LLMProvider } = {}): Promise<PaperMetadata> => {
+  const provider = options.provider || createLLMProvider();
+  const heuristics = extractMetadataHeuristics(doc, fileTitle);
+
+  const systemInstruction = `
+    You are a meticulous reference librarian. From the first pages of a paper, extract its citation metadata.
+
+    RULES:
+    - 'title': The paper's own title, exactly as printed (not a running header or journal name).
+    - 'authors': The paper's authors in printed order, "Given Family" form, without affiliations, footnote marks or emails.
+    - 'venue': The journal, conference, repository, school or publisher it appeared in. Empty if not printed.
+    - 'year': Four-digit publication year. Empty if not printed.
+    - 'type': One of ${PUBLICATION_TYPES.map(({ id }) => `'${id}'`).join(', ')}.
+    - Never invent values: leave a field empty rather than guessing.
+
+    Output pure JSON matching the schema.
+  `;
+
+  try {
+    const data = parseJSONResponse(await provider.generateJSON({
+      task: 'metadata',
+      systemInstruction,
+      contents: formatPagesForPrompt(doc.pages.slice(0, METADATA_PAGES)),
+      responseSchema: METADATA_SCHEMA
+    }));
+
+    const authors = (Array.isArray(data.authors) ? data.authors : []).map((author: unknown) => String(author).trim()).filter(Boolean);
+    const year = String(data.year || '').match(/(?:19|20)\d{2}/)?.[0];
+    return {
+      ...heuristics,
+      // An arXiv id in the text outranks the model's guess at the type
+      type: heuristics.arxivId ? 'preprint' : isPublicationType(data.type) ? data.type : heuristics.type,
+      title: String(data.title || '').trim() || heuristics.title,
+      authors: authors.length > 0 ? authors : heuristics.authors,
+      venue: String(data.venue || '').trim() || undefined,
+      year: year || heuristics.year
+    };
+  } catch (error: any) {
+    console.warn(`${provider.label} could not extract metadata, using the PDF's own:`, error);
+    return heuristics;
+  }
+};
+
+// --- Export ---
+interface NameParts {
+  family: string;
+  given: string;
+}
+
+// "Lovelace, Ada" or "Ada Lovelace"; lowercase particles stay with the family name ("van Gogh")
+const splitName = (name: string): NameParts => {
+  if (name.includes(',')) {
+    const [family, ...given] = name.split(',');
+    return { family: family.trim(), given: given.join(',').trim() };
+  }
+  const words = name.trim().split(/\s+/);
+  let familyStart = words.length - 1;
+  while (familyStart > 1 && /^\p{Ll}/u.test(words[familyStart - 1])) familyStart--;
+  return { family: words.slice(familyStart).join(' '), given: words.slice(0, familyStart).join(' ') };
+};
+
+// Blank lines can be left over from editing the author list
+const namedAuthors = (metadata: PaperMetadata) => metadata.authors.map(author => author.trim()).filter(Boolean);
+
+const asciiWord = (text: string) => text.normalize('NFKD').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+
+const TITLE_STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'for', 'and', 'in', 'to', 'towards', 'toward']);
+
+// BibTeX key in the usual "lovelace1843notes" shape
+export const citationKey = (metadata: PaperMetadata): string => {
+  const [firstAuthor] = namedAuthors(metadata);
+  const family = firstAuthor ? asciiWord(splitName(firstAuthor).family) : 'anon';
+  const titleWord = metadata.title.split(/\s+/).map(asciiWord).find(word => word && !TITLE_STOP_WORDS.has(word)) || '';
+  return `${family || 'anon'}${metadata.year || ''}${titleWord}`;
+};
+
+const escapeBibTeX = (text: string) => text.replace(/([&%$#_{}])/g, '\\$1');
+
+const BIBTEX_TYPES: Record<PublicationType, { entry: string; venueField: string }> = {
+  article: { entry: 'article', venueField: 'journal' },
+  inproceedings: { entry: 'inproceedings', venueField: 'booktitle' },
+  preprint: { entry: 'misc', venueField: 'howpublished' },
+  thesis: { entry: 'phdthesis', venueField: 'school' },
+  book: { entry: 'book', venueField: 'publisher' },
+  misc: { entry: 'misc', venueField: 'howpublished' }
+};
+
+export const exportMetadataToBibTeX = (metadata: PaperMetadata): string => {
+  const { entry, venueField } = BIBTEX_TYPES[metadata.type];
+  const fields: [string, string | undefined][] = [
+    // Double braces keep the title's capitalization
+    ['title', `{${escapeBibTeX(metadata.title)}}`],
+    ['author', namedAuthors(metadata).map(author => {
+      const { family, given } = splitName(author);
+      return escapeBibTeX(given ? `${family}, ${given}` : family);
+    }).join(' and ') || undefined],
+    [venueField, metadata.venue && escapeBibTeX(metadata.venue)],
+    ['year', metadata.year],
+    ['doi', metadata.doi && escapeBibTeX(metadata.doi)],
+    ['eprint', metadata.arxivId],
+    ['archivePrefix', metadata.arxivId && 'arXiv']
+  ];
+  const body = fields
+    .filter((field): field is [string, string] => !!field[1])
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+  return `@${entry}{${citationKey(metadata)},\n${body}\n}\n`;
+};
+
+const CSL_TYPES: Record<PublicationType, string> = {
+  article: 'article-journal',
+  inproceedings: 'paper-conference',
+  preprint: 'article',
+  thesis: 'thesis',
+  book: 'book',
+  misc: 'document'
+};
+
+// A one-item CSL-JSON array, as reference managers (Zotero, Pandoc) import it
+export const exportMetadataToCSLJSON = (metadata: PaperMetadata): string => {
+  const venueField = metadata.type === 'thesis' || metadata.type === 'book' ? 'publisher' : 'container-title';
+  const item: Record<string, unknown> = {
+    id: citationKey(metadata),
+    type: CSL_TYPES[metadata.type],
+    title: metadata.title,
+    author: namedAuthors(metadata).map(splitName),
+    ...(metadata.venue && { [venueField]: metadata.venue }),
+    ...(metadata.year && { issued: { 'date-parts': [[Number(metadata.year)]] } }),
+    ...(metadata.doi && { DOI: metadata.doi }),
+    ...(metadata.arxivId && { number: `arXiv:${metadata.arxivId}`, URL: `https://arxiv.org/abs/${metadata.arxivId}` })
+  };
+  return JSON.stringify([item], null, 2);
+};
+
+export const downloadCitation = (format: 'bibtex' | 'csl-json', metadata: PaperMetadata) => {
+  const baseName = safeFileName(citationKey(metadata));
+  if (format === 'bibtex') {
+    downloadFile(exportMetadataToBibTeX(metadata), `${baseName}.bib`, 'application/x-bibtex');
+  } else {
+    downloadFile(exportMetadataToCSLJSON(metadata), `${baseName}.json`, 'application/vnd.citationstyles.csl+json');
+  }
+};
@@ -0,0 +1,83 @@
+import { MindMapData, MindMapEdit, MindMapNode } from '../types';
+import { findNode } from './mindMapTree';
+import { countVerification } from './verificationService';
+
+export const createChildNode = (parent: MindMapNode, label: string = 'New node'): MindMapNode => ({
+  id: `user-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  label,
+  summary: '',
+  quote: '',
+  pageNumber: parent.pageNumber,
+  children: []
+});
+
+// True when `id` is `ancestorId` itself or lies somewhere below it
+export const isInSubtree = (root: MindMapNode, ancestorId: string, id: string): boolean => {
+  const ancestor = findNode(root, ancestorId);
+  return !!ancestor && !!findNode(ancestor, id);
+};
+
+export const canMoveNode = (root: MindMapNode, id: string, parentId: string): boolean =>
+  id !== root.id && !!findNode(root, id) && !!findNode(root, parentId) && !isInSubtree(root, id, parentId);
+
+// Copy the path to every node `update` touches; untouched subtrees are shared with the previous tree
+const mapTree = (node: MindMapNode, update: (node: MindMapNode) => MindMapNode): MindMapNode => {
+  const children = node.children?.map(child => mapTree(child, update));
+  const changed = children && children.some((child, index) => child !== node.children![index]);
+  return update(changed ? { ...node, children } : node);
+};
+
+const withoutNode = (root: MindMapNode, id: string): MindMapNode =>
+  mapTree(root, node => node.children?.some(child => child.id === id)
+    ? { ...node, children: node.children.filter(child => child.id !== id) }
+    : node);
+
+const insertChild = (root: MindMapNode, parentId: string, child: MindMapNode, index?: number): MindMapNode =>
+  mapTree(root, node => {
+    if (node.id !== parentId) return node;
+    const children = [...(node.children || [])];
+    children.splice(index === undefined ? children.length : Math.max(0, Math.min(index, children.length)), 0, child);
+    return { ...node, children };
+  });
+
+const applyToRoot = (root: MindMapNode, edit: MindMapEdit): MindMapNode => {
+  switch (edit.type) {
+    case 'update':
+      return mapTree(root, node => node.id === edit.id ? { ...node, ...edit.changes } : node);
+
+    case 'add':
+      return insertChild(root, edit.parentId, edit.node);
+
+    case 'delete':
+      return edit.id === root.id ? root : withoutNode(root, edit.id);
+
+    case 'move': {
+      if (!canMoveNode(root, edit.id, edit.parentId)) return root;
+      const node = findNode(root, edit.id)!;
+      return insertChild(withoutNode(root, edit.id), edit.parentId, node, edit.index);
+    }
+
+    case 'replace':
+      return mapTree(root, node => node.id === edit.id ? { ...edit.node, id: edit.id } : node);
+
+    case 'reorder':
+      return mapTree(root, node => {
+        const index = node.children?.findIndex(child => child.id === edit.id) ?? -1;
+        if (index < 0) return node;
+        const target = Math.max(0, Math.min(index + edit.offset, node.children!.length - 1));
+        if (target === index) return node;
+        const children = [...node.children!];
+        const [moved] = children.splice(index, 1);
+        children.splice(target, 0, moved);
+        return { ...node, children };
+      });
+  }
+};
+
+// Returns the same object when the edit changed nothing, so callers can skip history entries.
+// The verification stats are recounted so deleted, added or replaced quotes show up in them.
+export const applyMindMapEdit = (data: MindMapData, edit: MindMapEdit): MindMapData => {
+  const root = applyToRoot(data.root, edit);
+  if (root === data.root) return data;
+  return { ...data, root, verification: countVerification(root), editedAt: Date.now() };
+};
@@ -0,0 +1,221 @@
+import { HandleSide, MindMapLayout, MindMapNode } from '../types';
+
+export const NODE_WIDTH = 280; // Slightly wider for better text fit
+export const NODE_HEIGHT = 140;
+const RANK_SPACING = 140; // Gap between a node and its children in the left-to-right layouts
+const VERTICAL_RANK_SPACING = 80; // Cards are wider than tall, so top-down trees need less
+const NODE_SPACING = 24; // Gap between siblings
+const RING_SPACING = 60; // Minimum gap between a radial node and its parent
+
+// A visible node, positioned by its top-left corner like ReactFlow nodes
+export interface LayoutNode {
+  node: MindMapNode;
+  parentId?: string;
+  x: number;
+  y: number;
+  targetSide?: HandleSide; // Where the edge from the parent arrives; the root has none
+  sourceSides: HandleSide[]; // Where the edges to the children leave
+  collapsed: boolean;
+  hiddenCount: number; // Descendants hidden because this node is collapsed
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  sourceSide: HandleSide;
+  targetSide: HandleSide;
+}
+
+export interface MindMapLayoutResult {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+// Positions are node centers until the result is assembled
+interface Placement {
+  node: MindMapNode;
+  parent?: MindMapNode;
+  cx: number;
+  cy: number;
+}
+
+const countDescendants = (node: MindMapNode): number =>
+  (node.children || []).reduce((sum, child) => sum + 1 + countDescendants(child), 0);
+
+const visibleChildren = (node: MindMapNode, collapsedIds: ReadonlySet<string>): MindMapNode[] =>
+  collapsedIds.has(node.id) ? [] : node.children || [];
+
+// --- Block layouts (horizontal, vertical, balanced) ---
+
+interface BlockContext {
+  axis: 'x' | 'y'; // Direction the tree grows in
+  collapsedIds: ReadonlySet<string>;
+  spans: Map<string, number>;
+}
+
+// Room each subtree needs across the growth direction: its own card or its children's block, whichever is larger
+const measureSpans = (node: MindMapNode, context: BlockContext): number => {
+  const children = visibleChildren(node, context.collapsedIds);
+  const childrenSpan = children.reduce((sum, child) => sum + measureSpans(child, context), 0)
+    + Math.max(0, children.length - 1) * NODE_SPACING;
+  const span = Math.max(context.axis === 'x' ? NODE_HEIGHT : NODE_WIDTH, childrenSpan);
+  context.spans.set(node.id, span);
+  return span;
+};
+
+const blockSpan = (children: MindMapNode[], context: BlockContext) =>
+  children.reduce((sum, child) => sum + context.spans.get(child.id)!, 0) + Math.max(0, children.length - 1) * NODE_SPACING;
+
+// Stack the children one rank beyond the parent, centered on it, and recurse into each
+const placeBlock = (
+  children: MindMapNode[],
+  parent: MindMapNode,
+  parentMain: number,
+  crossCenter: number,
+  direction: 1 | -1,
+  context: BlockContext,
+  placements: Placement[]
+) => {
+  const main = parentMain + direction * (context.axis === 'x' ? NODE_WIDTH + RANK_SPACING : NODE_HEIGHT + VERTICAL_RANK_SPACING);
+  let cross = crossCenter - blockSpan(children, context) / 2;
+
+  for (const child of children) {
+    const span = context.spans.get(child.id)!;
+    const center = cross + span / 2;
+    placements.push(context.axis === 'x'
+      ? { node: child, parent, cx: main, cy: center }
+      : { node: child, parent, cx: center, cy: main });
+    placeBlock(visibleChildren(child, context.collapsedIds), child, main, center, direction, context, placements);
+    cross += span + NODE_SPACING;
+  }
+};
+
+const blockLayout = (root: MindMapNode, axis: 'x' | 'y', collapsedIds: ReadonlySet<string>, balanced: boolean): Placement[] => {
+  const context: BlockContext = { axis, collapsedIds, spans: new Map() };
+  measureSpans(root, context);
+  const placements: Placement[] = [{ node: root, cx: 0, cy: 0 }];
+  const children = visibleChildren(root, collapsedIds);
+
+  if (!balanced) {
+    placeBlock(children, root, 0, 0, 1, context, placements);
+    return placements;
+  }
+
+  // Keep reading order: the first branches go right until that side holds about half the height
+  const half = blockSpan(children, context) / 2;
+  let rightSpan = 0;
+  let splitAt = 0;
+  while (splitAt < children.length && (splitAt === 0 || rightSpan < half)) {
+    rightSpan += context.spans.get(children[splitAt].id)! + NODE_SPACING;
+    splitAt++;
+  }
+  placeBlock(children.slice(0, splitAt), root, 0, 0, 1, context, placements);
+  placeBlock(children.slice(splitAt), root, 0, 0, -1, context, placements);
+  return placements;
+};
+
+// --- Radial layout ---
+
+// How far apart two cards' centers must be along a unit direction for the cards not to overlap
+const clearance = (dx: number, dy: number, gap: number) =>
+  Math.min((NODE_WIDTH + gap) / Math.abs(dx), (NODE_HEIGHT + gap) / Math.abs(dy));
+
+const radialLayout = (root: MindMapNode, collapsedIds: ReadonlySet<string>): Placement[] => {
+  const leaves = new Map<string, number>();
+  const countLeaves = (node: MindMapNode): number => {
+    const children = visibleChildren(node, collapsedIds);
+    const count = children.length === 0 ? 1 : children.reduce((sum, child) => sum + countLeaves(child), 0);
+    leaves.set(node.id, count);
+    return count;
+  };
+  countLeaves(root);
+
+  // Each subtree gets a wedge proportional to its leaves; the first branch starts at the top, going clockwise
+  const wedges: { node: MindMapNode; parent: MindMapNode; depth: number; angle: number; wedge: number }[] = [];
+  const assignWedges = (node: MindMapNode, depth: number, start: number, wedge: number) => {
+    let angle = start;
+    for (const child of visibleChildren(node, collapsedIds)) {
+      const childWedge = wedge * leaves.get(child.id)! / leaves.get(node.id)!;
+      wedges.push({ node: child, parent: node, depth: depth + 1, angle: angle + childWedge / 2, wedge: childWedge });
+      assignWedges(child, depth + 1, angle, childWedge);
+      angle += childWedge;
+    }
+  };
+  assignWedges(root, 0, -Math.PI / 2, 2 * Math.PI);
+
+  // Each ring is far enough out for its neighbours to fit side by side and to clear the ring inside it
+  const radii = [0];
+  const maxDepth = Math.max(0, ...wedges.map(entry => entry.depth));
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    let radius = radii[depth - 1];
+    for (const entry of wedges.filter(candidate => candidate.depth === depth)) {
+      const cos = Math.cos(entry.angle);
+      const sin = Math.sin(entry.angle);
+      radius = Math.max(
+        radius,
+        radii[depth - 1] + clearance(cos, sin, RING_SPACING),
+        clearance(-sin, cos, NODE_SPACING) / entry.wedge
+      );
+    }
+    radii.push(radius);
+  }
+
+  return [
+    { node: root, cx: 0, cy: 0 },
+    ...wedges.map(entry => ({
+      node: entry.node,
+      parent: entry.parent,
+      cx: radii[entry.depth] * Math.cos(entry.angle),
+      cy: radii[entry.depth] * Math.sin(entry.angle)
+    }))
+  ];
+};
+
+// Radial edges leave through whichever side of the card faces the child
+const sideToward = (dx: number, dy: number): HandleSide =>
+  Math.abs(dx) * NODE_HEIGHT >= Math.abs(dy) * NODE_WIDTH
+    ? (dx >= 0 ? 'right' : 'left')
+    : (dy >= 0 ? 'bottom' : 'top');
+
+const edgeSides = (layout: MindMapLayout, dx: number, dy: number): [HandleSide, HandleSide] => {
+  if (layout === 'vertical') return ['bottom', 'top'];
+  if (layout === 'radial') return [sideToward(dx, dy), sideToward(-dx, -dy)];
+  return dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+};
+
+// Lay out the visible part of the tree; children of collapsed nodes are left out
+export const layoutMindMap = (root: MindMapNode, layout: MindMapLayout, collapsedIds: ReadonlySet<string>): MindMapLayoutResult => {
+  const placements = layout === 'radial'
+    ? radialLayout(root, collapsedIds)
+    : blockLayout(root, layout === 'vertical' ? 'y' : 'x', collapsedIds, layout === 'balanced');
+
+  const centers = new Map(placements.map(placement => [placement.node.id, placement]));
+  const edges: LayoutEdge[] = [];
+  const sourceSides = new Map<string, Set<HandleSide>>();
+  const targetSides = new Map<string, HandleSide>();
+
+  for (const { node, parent, cx, cy } of placements) {
+    if (!parent) continue;
+    const from = centers.get(parent.id)!;
+    const [sourceSide, targetSide] = edgeSides(layout, cx - from.cx, cy - from.cy);
+    edges.push({ source: parent.id, target: node.id, sourceSide, targetSide });
+    sourceSides.set(parent.id, (sourceSides.get(parent.id) || new Set<HandleSide>()).add(sourceSide));
+    targetSides.set(node.id, targetSide);
+  }
+
+  const nodes = placements.map(({ node, parent, cx, cy }): LayoutNode => {
+    const collapsed = collapsedIds.has(node.id) && (node.children?.length || 0) > 0;
+    return {
+      node,
+      parentId: parent?.id,
+      x: cx - NODE_WIDTH / 2,
+      y: cy - NODE_HEIGHT / 2,
+      targetSide: targetSides.get(node.id),
+      sourceSides: Array.from(sourceSides.get(node.id) || []),
+      collapsed,
+      hiddenCount: collapsed ? countDescendants(node) : 0
+    };
+  });
+
+  return { nodes, edges };
+};
@@ -0,0 +1,36 @@
+import { MindMapNode } from '../types';
+
+// Every node of the tree in depth-first (reading) order, root included
+export const flattenNodes = (root: MindMapNode): MindMapNode[] => {
+  const nodes: MindMapNode[] = [];
+  const visit = (node: MindMapNode) => {
+    nodes.push(node);
+    node.children?.forEach(visit);
+  };
+  visit(root);
+  return nodes;
+};
+
+export const findNode = (root: MindMapNode, id: string): MindMapNode | null =>
+  flattenNodes(root).find(node => node.id === id) || null;
+
+// The nodes from the root down to `id`, both included; null when the node isn't in the tree
+export const findPath = (root: MindMapNode, id: string): MindMapNode[] | null => {
+  if (root.id === id) return [root];
+  for (const child of root.children || []) {
+    const path = findPath(child, id);
+    if (path) return [root, ...path];
+  }
+  return null;
+};
+
+// Top-level section of the mind map that covers a page (the last one starting on or before it)
+export const findSectionForPage = (root: MindMapNode, pageNumber: number): MindMapNode | null => {
+  const sections = [...(root.children || [])].sort((a, b) => a.pageNumber - b.pageNumber);
+  let section: MindMapNode | null = sections[0] || null;
+  for (const candidate of sections) {
+    if (candidate.pageNumber > pageNumber) break;
+    section = candidate;
+  }
+  return section;
+};
@@ -0,0 +1,4 @@
+// Shared by the OCR service and the build, which copies these files into the app
+export const OCR_ASSET_DIR = 'tesseract';
+// Tesseract language codes whose recognition data ships with the app
+export const OCR_LANGUAGE_DATA = ['eng', 'deu', 'chi_sim'];
@@ -0,0 +1,133 @@
+import { createWorker, Worker, Line } from 'tesseract.js';
+import { PDFPageProxy, TextContentItem } from '../types';
+import { OCR_ASSET_DIR } from './ocrAssets';
+
+// Rendering resolution for recognition (about 150 DPI); lower loses small print, higher costs memory per page
+const OCR_SCALE = 2;
+// Pages with fewer characters than this in their text layer are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+// Words recognized with less confidence are usually specks or pieces of figures
+const MIN_WORD_CONFIDENCE = 30;
+// Cap height is roughly three quarters of the font size
+const CAP_HEIGHT_RATIO = 0.75;
+const OCR_FONT = 'sans-serif';
+const STORAGE_KEY = 'scholarmind.ocrLanguage';
+
+// Tesseract language codes; "+" combines models for papers that mix scripts
+export const OCR_LANGUAGES: { id: string; label: string }[] = [
+  { id: 'eng', label: 'English' },
+  { id: 'deu', label: 'German' },
+  { id: 'chi_sim', label: 'Chinese (Simplified)' },
+  { id: 'eng+deu', label: 'English + German' },
+  { id: 'eng+chi_sim', label: 'English + Chinese (Simplified)' }
+];
+export const DEFAULT_OCR_LANGUAGE = 'eng';
+
+export const loadOcrLanguage = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && OCR_LANGUAGES.some(option => option.id === stored)) return stored;
+  } catch (e) {
+    // Storage may be unavailable (private mode, sandboxed iframe)
+  }
+  return DEFAULT_OCR_LANGUAGE;
+};
+
+export const saveOcrLanguage = (language: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, language);
+  } catch (e) {
+    console.warn('Could not persist OCR language', e);
+  }
+};
+
+// The worker loads these itself, so they must be absolute URLs on the app's origin
+const assetUrl = (file: string) => new URL(`${OCR_ASSET_DIR}/${file}`, document.baseURI).href;
+
+export interface OcrEngine {
+  // Recognize the page's words as text items in PDF coordinates; pages are recognized one at a time
+  recognizePage: (page: PDFPageProxy) => Promise<TextContentItem[]>;
+  terminate: () => Promise<void>;
+}
+
+// A scanned page has no text layer, or only a few stray characters (a stamp, a watermark)
+export const needsOcr = (items: TextContentItem[]): boolean =>
+  items.reduce((count, item) => count + item.str.replace(/\s/g, '').length, 0) < MIN_TEXT_LAYER_CHARS;
+
+// Inverse of an affine transform [a, b, c, d, e, f]
+const invert = ([a, b, c, d, e, f]: number[]): number[] => {
+  const det = a * d - b * c || 1;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Turn a recognized line into one text item per word. Each item gets the transform pdf.js would give it,
+ * mapped back through the viewport, so layout analysis and the viewer's text layer treat it like real text.
+ * Words keep a trailing space so selections across them read as separate words.
+ */
+const lineToItems = (line: Line, toPdf: number[]): TextContentItem[] => {
+  const words = line.words.filter(word => word.text.trim() && word.confidence >= MIN_WORD_CONFIDENCE);
+  const { x0, y0, x1, y1 } = line.baseline;
+  const baselineAt = (x: number) => x1 === x0 ? y0 : y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+
+  return words.map((word, index) => {
+    const next = words[index + 1];
+    const baseline = baselineAt(word.bbox.x0);
+    const size = Math.max(1, (baseline - line.bbox.y0) / CAP_HEIGHT_RATIO);
+    // Text space is y-up; the canvas is y-down
+    const [a, b, c, d, e, f] = window.pdfjsLib.Util.transform(toPdf, [size, 0, 0, -size, word.bbox.x0, baseline]);
+    const width = (next ? next.bbox.x0 : word.bbox.x1) - word.bbox.x0;
+    return {
+      str: next ? `${word.text} ` : word.text,
+      dir: 'ltr',
+      width: round(width / OCR_SCALE),
+      height: round(size / OCR_SCALE),
+      transform: [a, b, c, d, e, f].map(round),
+      fontName: OCR_FONT,
+      hasEOL: !next
+    };
+  });
+};
+
+// The engine (WASM build plus language data, both served by the app) is only loaded when the first scanned page turns up
+export const createOcrEngine = (language: string = DEFAULT_OCR_LANGUAGE): OcrEngine => {
+  let worker: Promise<Worker> | null = null;
+  // One page at a time keeps a single full-page canvas in memory
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const recognize = async (page: PDFPageProxy): Promise<TextContentItem[]> => {
+    const viewport = page.getViewport({ scale: OCR_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas rendering is not supported in this browser.");
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    worker = worker || createWorker(language, undefined, {
+      workerPath: assetUrl('worker.min.js'),
+      corePath: assetUrl('core'),
+      langPath: assetUrl('lang')
+    });
+    const { data } = await (await worker).recognize(canvas, {}, { blocks: true });
+    const toPdf = invert(viewport.transform);
+    return (data.blocks || [])
+      .flatMap(block => block.paragraphs)
+      .flatMap(paragraph => paragraph.lines)
+      .flatMap(line => lineToItems(line, toPdf));
+  };
+
+  return {
+    recognizePage: (page) => {
+      const result = queue.then(() => recognize(page));
+      queue = result.catch(() => undefined);
+      return result;
+    },
+    terminate: async () => {
+      if (worker) await (await worker).terminate();
+      worker = null;
+    }
+  };
+};
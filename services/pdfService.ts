@@ -1,13 +1,79 @@
-import { PDFDocumentProxy } from '../types';
+import { PDFDocumentProxy, PDFOutlineItem, ExtractedDocument, ExtractedPage, OcrPage, PaperFigure, PdfInfo } from '../types';
+import { PageLayout, analyzePageLayout, composePageTexts } from './layoutService';
+import { detectFigures, mergePageFigures } from './figureService';
+import { OutlineEntry, buildSectionSkeleton } from './sectionService';
+import { DEFAULT_OCR_LANGUAGE, createOcrEngine, needsOcr } from './ocrService';
+
+// Base budget for loading the document, plus a per-page allowance so long theses don't time out
+const EXTRACTION_TIMEOUT_BASE_MS = 20000;
+const EXTRACTION_TIMEOUT_PER_PAGE_MS = 500;
+// Recognizing a scanned page takes seconds, and the first one also downloads the OCR engine
+const OCR_TIMEOUT_PER_PAGE_MS = 30000;
+// Pages are read in batches to keep memory bounded on very long documents
+const PAGE_BATCH_SIZE = 10;
+
+// Serialize pages with the markers the prompts and the fixture provider rely on
+export const formatPagesForPrompt = (pages: ExtractedPage[]): string =>
+  pages
+    .filter(({ text }) => text.trim())
+    .map(({ pageNumber, text }) => `\n--- PAGE ${pageNumber} START ---\n${text}\n--- PAGE ${pageNumber} END ---\n`)
+    .join('');
+
+// Keep the string fields of the information dictionary that metadata extraction can use
+const readPdfInfo = (info: Record<string, unknown>): PdfInfo => {
+  const field = (key: string) => typeof info[key] === 'string' && (info[key] as string).trim() ? (info[key] as string).trim() : undefined;
+  return {
+    title: field('Title'),
+    author: field('Author'),
+    subject: field('Subject'),
+    keywords: field('Keywords'),
+    creationDate: field('CreationDate')
+  };
+};
+
+// Flatten the PDF's bookmarks with the page each one points to; bookmarks that can't be resolved are dropped
+const readOutline = async (pdf: PDFDocumentProxy): Promise<OutlineEntry[]> => {
+  const resolvePage = async (dest: PDFOutlineItem['dest']): Promise<number | null> => {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!explicit || explicit.length === 0) return null;
+    const target = explicit[0];
+    const index = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return index + 1;
+  };
+
+  const entries: OutlineEntry[] = [];
+  const visit = async (items: PDFOutlineItem[], level: number) => {
+    for (const item of items) {
+      const pageNumber = await resolvePage(item.dest).catch(() => null);
+      if (pageNumber) entries.push({ title: item.title, level, pageNumber });
+      await visit(item.items || [], level + 1);
+    }
+  };
+  await visit((await pdf.getOutline()) || [], 1);
+  return entries;
+};
+
+export const extractTextFromPDF = async (
+  file: File,
+  onProgress?: (pagesExtracted: number, totalPages: number, pagesRecognized: number) => void,
+  ocrLanguage: string = DEFAULT_OCR_LANGUAGE
+): Promise<ExtractedDocument> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let rejectTimeout: (error: Error) => void = () => {};
 
-export const extractTextFromPDF = async (file: File): Promise<string> => {
   // 1. Define a timeout promise to prevent indefinite hanging
-  const timeoutPromise = new Promise<never>((_, reject) => 
-    setTimeout(() => reject(new Error("PDF extraction timed out (20s). The file may be too large or the network is slow.")), 20000)
-  );
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    rejectTimeout = reject;
+  });
+  const armTimeout = (ms: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => rejectTimeout(new Error(`PDF extraction timed out (${Math.round(ms / 1000)}s). The file may be too large or the network is slow.`)), ms);
+  };
+  armTimeout(EXTRACTION_TIMEOUT_BASE_MS);
+  const ocr = createOcrEngine(ocrLanguage);
 
   // 2. Define the extraction logic
-  const extractionPromise = new Promise<string>(async (resolve, reject) => {
+  const extractionPromise = new Promise<ExtractedDocument>(async (resolve, reject) => {
     try {
       if (typeof window === 'undefined' || !window.pdfjsLib) {
         throw new Error("PDF.js library is not loaded. Please check your internet connection and refresh the page.");
@@ -15,44 +81,78 @@ export const extractTextFromPDF = async (file: File): Promise<string> => {
 
       const arrayBuffer = await file.arrayBuffer();
       const data = new Uint8Array(arrayBuffer);
-      
+
       const loadingTask = window.pdfjsLib.getDocument({ data });
       const pdf: PDFDocumentProxy = await loadingTask.promise;
 
-      let fullText = '';
       const totalPages = pdf.numPages;
-      // Limit pages for performance, but increase slightly to cover more content
-      const maxPagesToRead = Math.min(totalPages, 15);
-
-      // 3. Parallelize page extraction for speed
-      const pagePromises = [];
-      for (let i = 1; i <= maxPagesToRead; i++) {
-        pagePromises.push(
-          pdf.getPage(i).then(async (page) => {
-            const textContent = await page.getTextContent();
-            const text = textContent.items.map((item: any) => item.str || '').join(' ');
-            return { index: i, text };
-          }).catch(err => {
-            console.warn(`Failed to read page ${i}`, err);
-            return { index: i, text: '' }; // Skip failed pages without breaking
-          })
-        );
-      }
+      // Now that the size is known, extend the deadline to cover every page
+      armTimeout(EXTRACTION_TIMEOUT_BASE_MS + totalPages * EXTRACTION_TIMEOUT_PER_PAGE_MS);
 
-      const pageResults = await Promise.all(pagePromises);
-
-      // 4. Reassemble text in order
-      pageResults.sort((a, b) => a.index - b.index).forEach(({ index, text }) => {
-        if (text.trim()) {
-           fullText += `\n--- PAGE ${index} START ---\n${text}\n--- PAGE ${index} END ---\n`;
+      // 3. Extract pages in parallel batches for speed; pages without a text layer go through OCR one by one
+      const layouts: PageLayout[] = [];
+      const pageFigures: PaperFigure[][] = [];
+      const ocrPages: OcrPage[] = [];
+      let pendingOcr = 0;
+      // Slow but steady: while pages are being recognized, the deadline only fires when recognition stalls
+      const armPageDeadline = () => armTimeout(EXTRACTION_TIMEOUT_BASE_MS + totalPages * EXTRACTION_TIMEOUT_PER_PAGE_MS + pendingOcr * OCR_TIMEOUT_PER_PAGE_MS);
+      for (let start = 1; start <= totalPages; start += PAGE_BATCH_SIZE) {
+        const end = Math.min(start + PAGE_BATCH_SIZE - 1, totalPages);
+        const pagePromises = [];
+        for (let i = start; i <= end; i++) {
+          pagePromises.push(
+            pdf.getPage(i).then(async (page) => {
+              let items = (await page.getTextContent()).items;
+              if (needsOcr(items)) {
+                pendingOcr++;
+                armPageDeadline();
+                try {
+                  items = await ocr.recognizePage(page);
+                  ocrPages.push({ pageNumber: i, items });
+                } finally {
+                  pendingOcr--;
+                  armPageDeadline();
+                }
+              }
+              const layout = analyzePageLayout(items, page.getViewport({ scale: 1 }), i);
+              return { layout, figures: detectFigures(layout) };
+            }).catch(err => {
+              console.warn(`Failed to read page ${i}`, err);
+              // Skip failed pages without breaking
+              const layout: PageLayout = { pageNumber: i, width: 1, height: 1, bodySize: 10, lines: [], rotatedText: '' };
+              return { layout, figures: [] };
+            })
+          );
         }
-      });
+        const batch = await Promise.all(pagePromises);
+        layouts.push(...batch.map(result => result.layout));
+        pageFigures.push(...batch.map(result => result.figures));
+        onProgress?.(layouts.length, totalPages, ocrPages.length);
+      }
+
+      // 4. Reassemble text in reading order, without running headers and footers (they repeat across pages)
+      layouts.sort((a, b) => a.pageNumber - b.pageNumber);
+      const pages: ExtractedPage[] = composePageTexts(layouts);
+      const fullText = formatPagesForPrompt(pages);
 
       if (!fullText.trim()) {
-        throw new Error("Could not extract text. The PDF might be a scanned image.");
+        throw new Error("Could not extract text. The PDF has no text layer and text recognition found none either.");
       }
 
-      resolve(fullText);
+      // Missing or broken metadata is common and never worth failing the extraction for
+      const info = await pdf.getMetadata().then(({ info }) => readPdfInfo(info || {})).catch(() => undefined);
+      // Likewise for bookmarks; without them the skeleton comes from the heading layout
+      const outline = await readOutline(pdf).catch(() => []);
+
+      resolve({
+        numPages: totalPages,
+        pages,
+        text: fullText,
+        info,
+        figures: mergePageFigures(pageFigures),
+        sections: buildSectionSkeleton(outline, layouts),
+        ocrPages: ocrPages.length > 0 ? ocrPages.sort((a, b) => a.pageNumber - b.pageNumber) : undefined
+      });
     } catch (error: any) {
       console.error('PDF Extraction Error:', error);
       reject(new Error(error.message || "Unknown error during PDF extraction"));
@@ -60,5 +160,10 @@ export const extractTextFromPDF = async (file: File): Promise<string> => {
   });
 
   // Race between extraction and timeout
-  return Promise.race([extractionPromise, timeoutPromise]);
-};
\ No newline at end of file
+  try {
+    return await Promise.race([extractionPromise, timeoutPromise]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    ocr.terminate().catch(() => undefined);
+  }
+};
@@ -0,0 +1,210 @@
+import { LLMProvider, LLMRequest } from '../../types';
+
+// Builds a canned response for one prompt task from the request contents
+export type FixtureBuilder = (request: LLMRequest) => unknown;
+
+interface FixturePage {
+  pageNumber: number;
+  text: string;
+}
+
+// Recover the per-page text from the "--- PAGE n START ---" markers written by pdfService
+const parsePages = (contents: string): FixturePage[] => {
+  const pages: FixturePage[] = [];
+  const pattern = /--- PAGE (\d+) START ---\n([\s\S]*?)\n--- PAGE \1 END ---/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(contents)) !== null) {
+    pages.push({ pageNumber: parseInt(match[1], 10), text: match[2].trim() });
+  }
+  if (pages.length === 0 && contents.trim()) {
+    pages.push({ pageNumber: 1, text: contents.trim() });
+  }
+  return pages;
+};
+
+const firstWords = (text: string, count: number): string =>
+  text.split(/\s+/).filter(Boolean).slice(0, count).join(' ');
+
+// Sections the prompt asks to fill in, if it carries a section skeleton
+const parseSkeleton = (systemInstruction: string): { id: string; parentId: string | null; title: string; pageNumber: number }[] => {
+  const match = systemInstruction.match(/SECTION SKELETON[^\n]*\n\s*(\[.*\])/);
+  return match ? JSON.parse(match[1]) : [];
+};
+
+// One section per page with a single summary point, quoting the page's opening words.
+// With a section skeleton, its sections instead, and each page's point under the section it falls in.
+const buildMindMapFixture: FixtureBuilder = (request) => {
+  const pages = parsePages(request.contents);
+  const skeleton = parseSkeleton(request.systemInstruction);
+  const nodes: any[] = [];
+
+  if (skeleton.length > 0) {
+    skeleton.forEach(section => {
+      const page = pages.find(({ pageNumber }) => pageNumber === section.pageNumber);
+      nodes.push({
+        id: section.id,
+        parentId: section.parentId,
+        label: section.title,
+        summary: firstWords(page?.text || '', 24),
+        quote: firstWords(page?.text || '', 12),
+        pageNumber: section.pageNumber
+      });
+    });
+    pages.forEach(({ pageNumber, text }) => {
+      const section = [...skeleton].reverse().find(candidate => candidate.pageNumber <= pageNumber) || skeleton[0];
+      nodes.push({
+        id: `p${pageNumber}-1`,
+        parentId: section.id,
+        label: `Key point of page ${pageNumber}`,
+        summary: firstWords(text, 40),
+        quote: firstWords(text, 12),
+        pageNumber
+      });
+    });
+  } else {
+    pages.forEach(({ pageNumber, text }) => {
+      const sectionId = `p${pageNumber}`;
+      nodes.push({
+        id: sectionId,
+        parentId: null,
+        label: `${pageNumber}. ${firstWords(text, 4) || `Page ${pageNumber}`}`,
+        summary: firstWords(text, 24),
+        quote: firstWords(text, 12),
+        pageNumber
+      });
+      nodes.push({
+        id: `${sectionId}-1`,
+        parentId: sectionId,
+        label: `Key point of page ${pageNumber}`,
+        summary: firstWords(text, 40),
+        quote: firstWords(text, 12),
+        pageNumber
+      });
+    });
+  }
+
+  // Same field order the real prompt asks for, so streaming behaves alike
+  return {
+    markdownSummary: `# Fixture Summary\n\n- ${pages.length} page(s) analyzed offline.\n- ${firstWords(pages[0]?.text || '', 30)}`,
+    nodes,
+    researchReport: `# Fixture Report\n\n1. Deterministic output generated without calling a model.`
+  };
+};
+
+const buildChunkFixture: FixtureBuilder = (request) => {
+  const { nodes } = buildMindMapFixture(request) as { nodes: any[] };
+  const pages = parsePages(request.contents);
+  return {
+    partialSummary: `Pages ${pages[0]?.pageNumber}–${pages[pages.length - 1]?.pageNumber}: ${firstWords(pages[0]?.text || '', 20)}`,
+    nodes
+  };
+};
+
+const buildSynthesisFixture: FixtureBuilder = (request) => ({
+  markdownSummary: `# Fixture Summary\n\n${request.contents.split('## Partial Summaries')[1]?.trim() || ''}`,
+  researchReport: `# Fixture Report\n\n1. Deterministic output generated without calling a model.`
+});
+
+// One detail node per page of the refined node's range
+const buildSubtreeFixture: FixtureBuilder = (request) => {
+  const pages = parsePages(request.contents);
+  return {
+    summary: `Fixture summary of pages ${pages[0]?.pageNumber}–${pages[pages.length - 1]?.pageNumber}: ${firstWords(pages[0]?.text || '', 20)}`,
+    nodes: pages.map(({ pageNumber, text }) => ({
+      id: `d${pageNumber}`,
+      parentId: null,
+      label: `Detail from page ${pageNumber}`,
+      summary: firstWords(text, 30),
+      quote: firstWords(text, 12),
+      pageNumber
+    }))
+  };
+};
+
+// Every comparison dimension answered from a different page, quoting its opening words
+const buildProfileFixture: FixtureBuilder = (request) => {
+  const pages = parsePages(request.contents);
+  const dimensions = ['problem', 'method', 'datasets', 'metrics', 'results', 'limitations'];
+  return Object.fromEntries(dimensions.map((dimension, index) => {
+    const page = pages[index % Math.max(pages.length, 1)];
+    return [dimension, {
+      text: `Fixture ${dimension}: ${firstWords(page?.text || '', 12)}`,
+      pageNumber: page?.pageNumber || 1,
+      quote: firstWords(page?.text || '', 8)
+    }];
+  }));
+};
+
+// Capitalized words and acronyms of the pages, which papers on one topic tend to share
+const buildConceptsFixture: FixtureBuilder = (request) => {
+  const words = request.contents.replace(/--- PAGE \d+ (START|END) ---/g, '').match(/\b[A-Z][A-Za-z0-9-]{2,}\b/g) || [];
+  return {
+    concepts: [...new Set(words)].slice(0, 12).map(name => ({
+      name,
+      kind: /^[A-Z0-9-]+$/.test(name) ? 'method' : 'term',
+      aliases: []
+    }))
+  };
+};
+
+// Title from the first page's opening words, year from the first four-digit year
+const buildMetadataFixture: FixtureBuilder = (request) => {
+  const [page] = parsePages(request.contents);
+  return {
+    type: 'article',
+    title: firstWords(page?.text || '', 8),
+    authors: ['Ada Lovelace', 'Charles Babbage'],
+    venue: '',
+    year: request.contents.match(/\b(?:19|20)\d{2}\b/)?.[0] || ''
+  };
+};
+
+// Cites the opening words of the first page it was given
+const buildChatFixture: FixtureBuilder = (request) => {
+  const [page] = parsePages(request.contents.split('## Question')[0]);
+  const question = request.contents.split('## Question\n')[1]?.trim() || '';
+  return {
+    answer: `Fixture answer to "${question}" [1]`,
+    citations: page ? [{ pageNumber: page.pageNumber, quote: firstWords(page.text, 12) }] : []
+  };
+};
+
+export const DEFAULT_FIXTURES: Record<string, FixtureBuilder> = {
+  mindmap: buildMindMapFixture,
+  'mindmap-chunk': buildChunkFixture,
+  'mindmap-synthesis': buildSynthesisFixture,
+  'mindmap-subtree': buildSubtreeFixture,
+  'compare-profile': buildProfileFixture,
+  concepts: buildConceptsFixture,
+  metadata: buildMetadataFixture,
+  chat: buildChatFixture
+};
+
+// Size of the fragments the fixture streams, so incremental rendering can be exercised offline
+const STREAM_FRAGMENT_SIZE = 48;
+
+// Deterministic, network-free provider so the whole pipeline can run offline
+export const createFixtureProvider = (fixtures: Record<string, FixtureBuilder> = DEFAULT_FIXTURES): LLMProvider => {
+  const respond = (request: LLMRequest): string => {
+    const builder = fixtures[request.task];
+    if (!builder) {
+      throw new Error(`No fixture registered for task '${request.task}'`);
+    }
+    return JSON.stringify(builder(request));
+  };
+
+  return {
+    id: 'fixture',
+    model: 'fixture',
+    label: 'Offline Fixture',
+    generateJSON: async (request) => respond(request),
+    streamJSON: async function* (request) {
+      const text = respond(request);
+      for (let i = 0; i < text.length; i += STREAM_FRAGMENT_SIZE) {
+        // Yield to the event loop like a real network stream would
+        await new Promise(resolve => setTimeout(resolve, 0));
+        yield text.slice(i, i + STREAM_FRAGMENT_SIZE);
+      }
+    }
+  };
+};
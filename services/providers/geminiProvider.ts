@@ -0,0 +1,62 @@
+import { GoogleGenAI, Type, Schema, GenerateContentParameters } from "@google/genai";
+import { LLMProvider, LLMProviderConfig, LLMRequest, ResponseSchema } from '../../types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Translate the provider-neutral schema into Gemini's uppercase Type enum
+const toGeminiSchema = (schema: ResponseSchema): Schema => {
+  const result: Schema = { type: schema.type.toUpperCase() as Type };
+
+  if (schema.properties) {
+    result.properties = {};
+    Object.entries(schema.properties).forEach(([key, value]) => {
+      result.properties![key] = toGeminiSchema(value);
+    });
+  }
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.propertyOrdering) result.propertyOrdering = schema.propertyOrdering;
+
+  return result;
+};
+
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  const model = config.model || DEFAULT_GEMINI_MODEL;
+
+  const createClient = () => {
+    if (!config.apiKey) {
+      throw new Error("API_KEY is missing. Please ensure it is set in your environment.");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  const buildParams = (request: LLMRequest): GenerateContentParameters => ({
+    model,
+    contents: request.contents,
+    config: {
+      systemInstruction: request.systemInstruction,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(request.responseSchema)
+    }
+  });
+
+  return {
+    id: 'gemini',
+    model,
+    label: model === DEFAULT_GEMINI_MODEL ? 'Gemini 2.5 Flash' : model,
+    generateJSON: async (request) => {
+      const response = await createClient().models.generateContent(buildParams(request));
+
+      if (!response.text) {
+        throw new Error("No response text from AI");
+      }
+      return response.text;
+    },
+    streamJSON: async function* (request) {
+      const stream = await createClient().models.generateContentStream(buildParams(request));
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import { LLMProvider, LLMProviderConfig, LLMProviderId } from '../../types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAIProvider } from './openaiProvider';
+import { createFixtureProvider } from './fixtureProvider';
+
+export { createGeminiProvider, createOpenAIProvider, createFixtureProvider };
+
+const PROVIDER_IDS: LLMProviderId[] = ['gemini', 'openai', 'fixture'];
+
+// Read the provider selection injected by vite.config.ts (see README for the variables)
+export const getProviderConfigFromEnv = (): LLMProviderConfig => {
+  const requested = (process.env.LLM_PROVIDER || 'gemini').toLowerCase() as LLMProviderId;
+  const provider = PROVIDER_IDS.includes(requested) ? requested : 'gemini';
+
+  if (provider === 'openai') {
+    return {
+      provider,
+      model: process.env.OPENAI_MODEL || undefined,
+      baseUrl: process.env.OPENAI_BASE_URL || undefined,
+      apiKey: process.env.OPENAI_API_KEY || undefined
+    };
+  }
+
+  return {
+    provider,
+    model: process.env.GEMINI_MODEL || undefined,
+    apiKey: process.env.API_KEY || undefined
+  };
+};
+
+export const createLLMProvider = (config: LLMProviderConfig = getProviderConfigFromEnv()): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
@@ -0,0 +1,95 @@
+import { LLMProvider, LLMProviderConfig, LLMRequest } from '../../types';
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:8000/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// Works with any server exposing the OpenAI Chat Completions API (vLLM, Ollama, LM Studio, llama.cpp ...)
+export const createOpenAIProvider = (config: LLMProviderConfig): LLMProvider => {
+  const model = config.model || DEFAULT_OPENAI_MODEL;
+  const baseUrl = (config.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+
+  const postCompletion = async (request: LLMRequest, stream: boolean): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually run without auth, so the key is optional
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    // Not every compatible server implements `json_schema`, so we ask for a plain
+    // JSON object and spell out the schema in the system prompt instead.
+    const systemInstruction = `${request.systemInstruction}
+
+    The JSON must conform to this JSON Schema:
+    ${JSON.stringify(request.responseSchema)}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content: request.contents }
+          ],
+          response_format: { type: 'json_object' },
+          temperature: 0.2,
+          stream
+        })
+      });
+    } catch (error: any) {
+      throw new Error(`Could not reach OpenAI-compatible server at ${baseUrl}: ${error.message || error}`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Server responded with ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+    model,
+    endpoint: baseUrl,
+    label: model,
+    generateJSON: async (request) => {
+      const response = await postCompletion(request, false);
+      const payload = await response.json();
+      const text: string | undefined = payload?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("No response text from AI");
+      }
+      return text;
+    },
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    streamJSON: async function* (request) {
+      const response = await postCompletion(request, true);
+      if (!response.body) throw new Error("Streaming is not supported by this browser.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let pending = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        pending += decoder.decode(value, { stream: true });
+
+        const lines = pending.split('\n');
+        pending = lines.pop() || '';
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === '[DONE]') return;
+          try {
+            const delta: string | undefined = JSON.parse(data)?.choices?.[0]?.delta?.content;
+            if (delta) yield delta;
+          } catch (e) {
+            console.warn("Skipping malformed stream event:", data);
+          }
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,289 @@
+import { Citation, CitationStyle, ExtractedPage, Reference, ReferenceIndex } from '../types';
+
+// Heading that opens the bibliography; the last one wins since tables of contents mention it too
+const HEADING_PATTERN = /\b(?:References|REFERENCES|Bibliography|BIBLIOGRAPHY|Literature Cited|Works Cited|参考文献)\b/g;
+// Appendices after the bibliography are not part of it
+const END_PATTERN = /\b(?:Appendix|APPENDIX|Appendices|APPENDICES|Supplementary Materials?|SUPPLEMENTARY MATERIALS?)\b/;
+const YEAR_PATTERN = /\b((?:19|20)\d{2})([a-z])?\b/;
+// Numbered lists are walked in order, so stop at an implausible length
+const MAX_REFERENCES = 500;
+// The last entry runs to the end of the document; cap it so trailing footers don't pile in
+const MAX_ENTRY_LENGTH = 800;
+// Characters of text kept before a citation marker to locate it in the PDF
+const CONTEXT_LENGTH = 80;
+
+// Pages joined into one string, remembering where each page starts
+interface JoinedPages {
+  text: string;
+  starts: { pageNumber: number; offset: number }[];
+}
+
+const joinPages = (pages: ExtractedPage[]): JoinedPages => {
+  let text = '';
+  const starts = pages.map(page => {
+    const start = { pageNumber: page.pageNumber, offset: text.length };
+    text += page.text.replace(/\s+/g, ' ').trim() + ' ';
+    return start;
+  });
+  return { text, starts };
+};
+
+const pageAt = ({ starts }: JoinedPages, offset: number): number => {
+  let pageNumber = starts[0]?.pageNumber || 1;
+  for (const start of starts) {
+    if (start.offset > offset) break;
+    pageNumber = start.pageNumber;
+  }
+  return pageNumber;
+};
+
+// Offset of the bibliography heading: the last one followed by something that looks like an entry
+const findReferenceSection = (text: string): { start: number; end: number } | null => {
+  const candidates = [...text.matchAll(HEADING_PATTERN)].reverse();
+  const heading = candidates.find(match => YEAR_PATTERN.test(text.slice(match.index!, match.index! + 600)));
+  if (!heading) return null;
+
+  const start = heading.index! + heading[0].length;
+  const endMatch = END_PATTERN.exec(text.slice(start));
+  return { start, end: endMatch ? start + endMatch.index : text.length };
+};
+
+interface RawEntry {
+  text: string;
+  offset: number;
+  number?: number;
+}
+
+// "[1] … [2] …" or "1. … 2. …": walk the numbers in order so page or volume numbers don't split entries
+const splitNumbered = (section: string, bracketed: boolean): RawEntry[] => {
+  const marker = (n: number) => bracketed
+    ? new RegExp(`\\[${n}\\]\\s*`, 'g')
+    : new RegExp(`(?:^|\\s)${n}\\.?\\s+(?=\\p{Lu})`, 'gu');
+
+  const starts: { number: number; index: number; length: number }[] = [];
+  let from = 0;
+  for (let n = 1; n <= MAX_REFERENCES; n++) {
+    const pattern = marker(n);
+    pattern.lastIndex = from;
+    const match = pattern.exec(section);
+    if (!match) break;
+    starts.push({ number: n, index: match.index, length: match[0].length });
+    from = match.index + match[0].length;
+  }
+
+  return starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : Math.min(section.length, from + MAX_ENTRY_LENGTH);
+    return { text: section.slice(start.index + start.length, end).trim(), offset: start.index, number: start.number };
+  });
+};
+
+// Author-year lists have no numbers: a new entry starts after a full stop when the next words look
+// like the first author ("Smith, J." or "Ashish Vaswani, …"), or after a trailing DOI/URL.
+// Fragments without a year are continuations and go back onto the previous entry.
+const ENTRY_START = /(?<=[^\s.]{2}\.|https?:\/\/\S+|\b10\.\d{4,9}\/\S+)\s+(?!In\s)(?=\p{Lu}[\p{L}'’-]+,\s+\p{Lu}\.|\p{Lu}\p{Ll}+(?:\s\p{Lu}\.)*\s\p{Lu}[\p{L}'’-]+(?:,|\s+and\s))/gu;
+
+const splitAuthorYear = (section: string): RawEntry[] => {
+  const entries: RawEntry[] = [];
+  let previous = 0;
+  const boundaries = [...section.matchAll(ENTRY_START)].map(match => match.index! + match[0].length);
+  [...boundaries, section.length].forEach(boundary => {
+    const text = section.slice(previous, boundary).trim();
+    if (text) {
+      const last = entries[entries.length - 1];
+      if (last && !YEAR_PATTERN.test(text)) {
+        last.text = `${last.text} ${text}`;
+      } else {
+        entries.push({ text, offset: previous });
+      }
+    }
+    previous = boundary;
+  });
+  return entries.filter(entry => YEAR_PATTERN.test(entry.text)).slice(0, MAX_REFERENCES);
+};
+
+// --- Entry Parsing ---
+// Sentence ends, but not after an initial ("J.") or "et al."
+const SENTENCE_END = /(?<!\bet al\.)(?<=[^\s.]{2}[.?!])\s+/u;
+
+const trimPunctuation = (text: string) => text.replace(/^[\s,.;:]+|[\s,.;:]+$/g, '');
+
+const splitAuthors = (text: string): string[] => {
+  // Keep the full stop of a trailing initial ("Doe, A.")
+  const cleaned = text.replace(/\bet al\.?/gi, '').replace(/^[\s,.;:]+|[\s,;:]+$/g, '');
+  const authors: string[] = [];
+  cleaned.split(/\s*(?:,|;|&|\band\b)\s*/).map(part => part.trim().replace(/(\p{Ll})\.$/u, '$1')).filter(Boolean).forEach(part => {
+    // "Smith, J." was split into the surname and its initials; glue them back together
+    if (/^(?:\p{Lu}\.?\s?-?)+$/u.test(part) && authors.length > 0) {
+      authors[authors.length - 1] += `, ${part}`;
+    } else {
+      authors.push(part);
+    }
+  });
+  return authors;
+};
+
+// "Smith, J." → "Smith"; "John Smith" / "J. Smith" → "Smith"
+const surnameOf = (author: string): string =>
+  author.includes(',') ? author.split(',')[0].trim() : author.split(/\s+/).pop()!.replace(/\.$/, '');
+
+const parseEntry = (raw: RawEntry, pageNumber: number): Reference => {
+  const text = raw.text.replace(/\s+/g, ' ').trim();
+  const doi = text.match(/\b10\.\d{4,9}\/[^\s"<>]+/)?.[0].replace(/[.,;)\]]+$/, '');
+  const arxivId = text.match(/arXiv[:\s]*(?:abs\/)?(\d{4}\.\d{4,5})/i)?.[1]
+    || text.match(/arxiv\.org\/(?:abs|pdf)\/(\d{4}\.\d{4,5})/i)?.[1];
+
+  // Identifiers and URLs contain digit runs that look like years
+  const plain = text.replace(/\b10\.\d{4,9}\/\S+|https?:\/\/\S+|arXiv[:\s]*\S+/gi, '');
+  const parenYear = plain.match(/\(((?:19|20)\d{2}[a-z]?)\)/);
+  const year = parenYear?.[1] || plain.match(YEAR_PATTERN)?.[0];
+
+  let authorText = '';
+  let title: string | undefined;
+  let venue: string | undefined;
+  const quoted = plain.match(/[“"](.+?)[”"]/);
+  const springer = plain.match(/^(.{3,300}?\p{Lu}\.):\s+(.*)$/u);
+  const sentences = (text: string) => text.split(SENTENCE_END).map(trimPunctuation).filter(Boolean);
+  if (quoted) {
+    // IEEE: A. Smith and B. Doe, "Title," in Venue, 2020.
+    authorText = plain.slice(0, quoted.index);
+    title = quoted[1];
+    venue = plain.slice(quoted.index! + quoted[0].length);
+  } else if (springer) {
+    // Springer: Smith, J., Doe, A.: Title. In: Venue, pp. 1–10 (2020)
+    authorText = springer[1];
+    [title, venue] = sentences(springer[2]);
+  } else if (parenYear) {
+    // APA: Smith, J., & Doe, A. (2020). Title. Venue, 12(3), 1–10.
+    authorText = plain.slice(0, parenYear.index);
+    [title, venue] = sentences(plain.slice(parenYear.index! + parenYear[0].length));
+  } else {
+    // ACL: Authors. 2020. Title. In Venue, pages 1–10.
+    [authorText, title, venue] = sentences(plain).filter(sentence => !/^(?:19|20)\d{2}[a-z]?$/.test(sentence));
+  }
+
+  const authors = splitAuthors(authorText || '');
+  // Venue up to the year, pages or volume details
+  const cleanVenue = venue && trimPunctuation(venue.replace(/^[\s,.]*in:?\s+/i, '').split(/,?\s*(?:\(?\b(?:19|20)\d{2}\b|pp?\.\s|pages\s|vol\.\s)/)[0]);
+
+  const number = raw.number;
+  let label = number ? `[${number}]` : '';
+  if (!number) {
+    const first = authors[0] ? surnameOf(authors[0]) : 'Anon.';
+    const who = authors.length > 2 ? `${first} et al.` : authors.length === 2 ? `${first} and ${surnameOf(authors[1])}` : first;
+    label = year ? `${who}, ${year}` : who;
+  }
+
+  return {
+    id: number ? `ref-${number}` : `ref-${raw.offset}`,
+    label,
+    number,
+    raw: text,
+    authors,
+    title: title ? trimPunctuation(title) : undefined,
+    venue: cleanVenue || undefined,
+    year,
+    doi,
+    arxivId,
+    pageNumber
+  };
+};
+
+// --- In-text Citations ---
+const contextBefore = (text: string, index: number): string => {
+  const start = Math.max(0, index - CONTEXT_LENGTH);
+  const snippet = text.slice(start, index);
+  // Drop the partial word the cut landed in
+  return (start > 0 ? snippet.replace(/^\S*\s/, '') : snippet).trim();
+};
+
+// "[3]", "[3, 7]", "[3–5]"
+const NUMERIC_CITATION = /\[(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\]/g;
+// "(Smith et al., 2020; Doe and Roe 2019)" — split into parts at ";"
+const PARENTHETICAL_CITATION = /\(([^()]{0,300}?\b(?:19|20)\d{2}[a-z]?)\)/g;
+// "Smith et al. (2020)"
+const NARRATIVE_CITATION = /(\p{Lu}[\p{L}'’-]+)(?:\s+et\s+al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?\s+\(((?:19|20)\d{2}[a-z]?)\)/gu;
+const AUTHOR_YEAR = /(\p{Lu}[\p{L}'’-]+)(?:\s+et\s+al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?,?\s+((?:19|20)\d{2}[a-z]?)/u;
+
+const expandNumbers = (list: string): number[] =>
+  list.split(/\s*,\s*/).flatMap(part => {
+    const [from, to] = part.split(/\s*[–-]\s*/).map(Number);
+    if (!to) return [from];
+    // Guard against "[1-999]"-style false positives
+    return to > from && to - from < 50 ? Array.from({ length: to - from + 1 }, (_, i) => from + i) : [from];
+  });
+
+const authorYearKey = (surname: string, year: string) =>
+  `${surname.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase()}|${year}`;
+
+const findCitations = (pages: { pageNumber: number; text: string }[], style: CitationStyle, references: Reference[]): Citation[] => {
+  const citations: Citation[] = [];
+
+  if (style === 'numeric') {
+    const byNumber = new Map(references.map(reference => [reference.number!, reference]));
+    pages.forEach(({ pageNumber, text }) => {
+      for (const match of text.matchAll(NUMERIC_CITATION)) {
+        const context = contextBefore(text, match.index!);
+        expandNumbers(match[1]).forEach(number => {
+          const reference = byNumber.get(number);
+          if (reference) citations.push({ referenceId: reference.id, pageNumber, marker: match[0], context });
+        });
+      }
+    });
+    return citations;
+  }
+
+  // Exact year first ("2020a"), then the bare year in case the letters don't line up
+  const byKey = new Map<string, Reference>();
+  references.forEach(reference => {
+    const surname = reference.authors[0] && surnameOf(reference.authors[0]);
+    if (!surname || !reference.year) return;
+    byKey.set(authorYearKey(surname, reference.year), reference);
+    const bareKey = authorYearKey(surname, reference.year.slice(0, 4));
+    if (!byKey.has(bareKey)) byKey.set(bareKey, reference);
+  });
+  const resolve = (surname: string, year: string) =>
+    byKey.get(authorYearKey(surname, year)) || byKey.get(authorYearKey(surname, year.slice(0, 4)));
+
+  pages.forEach(({ pageNumber, text }) => {
+    for (const match of text.matchAll(PARENTHETICAL_CITATION)) {
+      const context = contextBefore(text, match.index!);
+      match[1].split(';').forEach(part => {
+        const cited = part.match(AUTHOR_YEAR);
+        const reference = cited && resolve(cited[1], cited[2]);
+        if (reference) citations.push({ referenceId: reference.id, pageNumber, marker: match[0], context });
+      });
+    }
+    for (const match of text.matchAll(NARRATIVE_CITATION)) {
+      const reference = resolve(match[1], match[2]);
+      if (reference) citations.push({ referenceId: reference.id, pageNumber, marker: match[0], context: contextBefore(text, match.index! + match[0].length) });
+    }
+  });
+  return citations;
+};
+
+// Parse the bibliography and resolve in-text citations to it; null when no reference list is found
+export const extractReferences = (pages: ExtractedPage[]): ReferenceIndex | null => {
+  const joined = joinPages(pages);
+  const section = findReferenceSection(joined.text);
+  if (!section) return null;
+
+  const sectionText = joined.text.slice(section.start, section.end);
+  const bracketed = /^\s*\[1\]/.test(sectionText);
+  const dotted = !bracketed && /^\s*1\.?\s+\p{Lu}/u.test(sectionText);
+  const style: CitationStyle = bracketed || dotted ? 'numeric' : 'author-year';
+  const rawEntries = style === 'numeric' ? splitNumbered(sectionText, bracketed) : splitAuthorYear(sectionText);
+  if (rawEntries.length === 0) return null;
+
+  const references = rawEntries.map(entry => parseEntry(entry, pageAt(joined, section.start + entry.offset)));
+
+  // Only the body cites: cut each page at the start of the reference list
+  const startPage = pageAt(joined, section.start);
+  const body = joined.starts
+    .filter(({ pageNumber }) => pageNumber <= startPage)
+    .map(({ pageNumber, offset }, i, starts) => {
+      const end = i + 1 < starts.length ? starts[i + 1].offset : section.start;
+      return { pageNumber, text: joined.text.slice(offset, Math.min(end, section.start)) };
+    });
+
+  return { style, startPage, references, citations: findCitations(body, style, references) };
+};
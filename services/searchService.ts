@@ -0,0 +1,96 @@
+import { ExtractedPage, MindMapNode, NodeSearchField, NodeSearchHit, PageSearchHit, SearchResults } from '../types';
+import { TermMatch, findAllMatches, normalizeForMatching } from './textAlignment';
+import { flattenNodes } from './mindMapTree';
+
+// Single letters match nearly every line
+const MIN_QUERY_LENGTH = 2;
+// Enough to step through; a common word in a long thesis would otherwise list thousands
+const MAX_PAGE_HITS = 500;
+const SNIPPET_RADIUS = 40;
+
+const NODE_FIELDS: NodeSearchField[] = ['label', 'summary', 'quote'];
+
+export const isSearchable = (query: string) => normalizeForMatching(query).length >= MIN_QUERY_LENGTH;
+
+// A window of text around the match, cut at word boundaries and on one line
+const snippetAround = (text: string, start: number, end: number): { snippet: string; matchStart: number; matchEnd: number } => {
+  let from = Math.max(0, start - SNIPPET_RADIUS);
+  let to = Math.min(text.length, end + SNIPPET_RADIUS);
+  const spaceAfterFrom = text.indexOf(' ', from);
+  if (from > 0 && spaceAfterFrom >= 0 && spaceAfterFrom < start) from = spaceAfterFrom + 1;
+  const spaceBeforeTo = text.lastIndexOf(' ', to);
+  if (to < text.length && spaceBeforeTo > end) to = spaceBeforeTo;
+
+  const before = (from > 0 ? '…' : '') + text.slice(from, start).replace(/\s+/g, ' ');
+  const match = text.slice(start, end).replace(/\s+/g, ' ');
+  const after = text.slice(end, to).replace(/\s+/g, ' ') + (to < text.length ? '…' : '');
+  return { snippet: before + match + after, matchStart: before.length, matchEnd: before.length + match.length };
+};
+
+export const searchPages = (pages: ExtractedPage[], query: string): { hits: PageSearchHit[]; truncated: boolean } => {
+  const hits: PageSearchHit[] = [];
+  for (const page of pages) {
+    const matches = findAllMatches(page.text, query);
+    for (let occurrence = 0; occurrence < matches.length; occurrence++) {
+      if (hits.length >= MAX_PAGE_HITS) return { hits, truncated: true };
+      const { start, end } = matches[occurrence];
+      hits.push({ pageNumber: page.pageNumber, occurrence, ...snippetAround(page.text, start, end) });
+    }
+  }
+  return { hits, truncated: false };
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) length++;
+  return length;
+};
+
+const reverse = (text: string) => Array.from(text).reverse().join('');
+
+/**
+ * Which of the term's occurrences in the viewer's text items a page hit refers to, or -1.
+ * Hits are counted in the composed page text, which drops running headers and follows columns,
+ * so the n-th hit is not necessarily the n-th item match; the text around the match decides,
+ * and the occurrence number only breaks ties.
+ */
+export const locateSearchHit = (matches: TermMatch[], hit: PageSearchHit): number => {
+  const before = reverse(normalizeForMatching(hit.snippet.slice(0, hit.matchStart)));
+  const after = normalizeForMatching(hit.snippet.slice(hit.matchEnd));
+  let best = -1;
+  let bestScore = -1;
+  matches.forEach((match, index) => {
+    const score = commonPrefixLength(reverse(match.before), before) + commonPrefixLength(match.after, after);
+    if (score > bestScore || (score === bestScore && Math.abs(index - hit.occurrence) < Math.abs(best - hit.occurrence))) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const searchNodes = (root: MindMapNode, query: string): NodeSearchHit[] =>
+  flattenNodes(root).flatMap(node => {
+    for (const field of NODE_FIELDS) {
+      const text = node[field] || '';
+      const [match] = findAllMatches(text, query);
+      if (match) {
+        return [{
+          nodeId: node.id,
+          label: node.label,
+          pageNumber: node.pageNumber,
+          quote: node.quote,
+          field,
+          ...snippetAround(text, match.start, match.end)
+        }];
+      }
+    }
+    return [];
+  });
+
+// Search the mind map and, when the text is available, the paper itself
+export const searchAll = (pages: ExtractedPage[], root: MindMapNode | undefined, query: string): SearchResults => {
+  if (!isSearchable(query)) return { query, nodeHits: [], pageHits: [], truncated: false };
+  const { hits, truncated } = searchPages(pages, query);
+  return { query, nodeHits: root ? searchNodes(root, query) : [], pageHits: hits, truncated };
+};
@@ -0,0 +1,154 @@
+import { DocumentSection } from '../types';
+import { LayoutLine, PageLayout } from './layoutService';
+
+// One bookmark of the PDF outline with the page it points to
+export interface OutlineEntry {
+  title: string;
+  level: number; // 1 for top-level bookmarks
+  pageNumber: number;
+}
+
+// Fewer top-level sections than this is not a structure worth imposing on the model
+const MIN_TOP_LEVEL_SECTIONS = 2;
+const MAX_HEADING_WORDS = 14;
+
+// "2", "2.1", "2.1.3" (arabic), "IV." (IEEE sections) and "B." (IEEE subsections), followed by the title
+const ARABIC_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+(\p{Lu}.*)$/u;
+const ROMAN_HEADING = /^([IVX]{1,5})\.\s+(\p{Lu}.*)$/u;
+const LETTER_HEADING = /^([A-H])\.\s+(\p{Lu}.*)$/u;
+// Headings papers use without numbers
+const NAMED_HEADING = /^(abstract|introduction|related work|background|preliminaries|methods?|materials and methods|experiments?|experimental setup|evaluation|results|results and discussion|discussion|limitations|conclusions?|conclusions and future work|future work|acknowledge?ments?|references|bibliography|appendix|appendices)$/i;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Titles are short phrases: no sentence punctuation at the end, not mostly numbers (table rows)
+const isPlausibleTitle = (title: string) =>
+  title.length >= 2 && title.length <= 120
+  && wordCount(title) <= MAX_HEADING_WORDS
+  && !/[.,;:]$/.test(title)
+  && (title.match(/\d+(?:\.\d+)?/g) || []).length <= 2;
+
+const parseNumber = (title: string): string | undefined =>
+  (title.match(ARABIC_HEADING) || title.match(ROMAN_HEADING))?.[1];
+
+// Give the entries ids and parents; level 2 entries before any level 1 entry become level 1
+const toSections = (entries: { title: string; level: 1 | 2; pageNumber: number; number?: string }[], source: DocumentSection['source']): DocumentSection[] => {
+  let parentId: string | null = null;
+  return entries.map((entry, index) => {
+    const id = `sec-${index + 1}`;
+    const level: 1 | 2 = entry.level === 2 && parentId ? 2 : 1;
+    if (level === 1) parentId = id;
+    return {
+      id,
+      parentId: level === 2 ? parentId : null,
+      title: entry.title,
+      number: entry.number ?? parseNumber(entry.title),
+      level,
+      pageNumber: entry.pageNumber,
+      source
+    };
+  });
+};
+
+// The PDF's bookmarks, down to subsections. A single bookmark wrapping everything (the paper's title) is skipped.
+export const sectionsFromOutline = (entries: OutlineEntry[]): DocumentSection[] => {
+  const topLevel = entries.filter(entry => entry.level === 1);
+  const shift = topLevel.length === 1 && entries.length > 1 ? 1 : 0;
+  const kept = entries
+    .filter(entry => entry.level - shift >= 1 && entry.level - shift <= 2 && entry.title.trim())
+    .map(entry => ({ title: entry.title.replace(/\s+/g, ' ').trim(), level: (entry.level - shift) as 1 | 2, pageNumber: entry.pageNumber }));
+  const sections = toSections(kept, 'outline');
+  return sections.filter(section => section.level === 1).length >= MIN_TOP_LEVEL_SECTIONS ? sections : [];
+};
+
+interface HeadingCandidate {
+  line: LayoutLine;
+  pageNumber: number;
+  kind: 'arabic' | 'roman' | 'letter' | 'named' | 'styled';
+  number?: string;
+}
+
+// Most common font of the running text, by characters
+const dominantFont = (lines: LayoutLine[]): string => {
+  const weights = new Map<string, number>();
+  lines.forEach(line => weights.set(line.fontName, (weights.get(line.fontName) || 0) + line.text.length));
+  return [...weights].sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+};
+
+/**
+ * Recognize section headings from the page layout: lines that start a paragraph, are set larger than
+ * the body text or in another face (bold), and carry a section number or a conventional name.
+ * Numbers must progress like an outline, which rules out numbered lists and table rows.
+ */
+export const detectSections = (layouts: PageLayout[]): DocumentSection[] => {
+  const bodyLines = layouts.flatMap(layout =>
+    layout.lines.filter(line => !line.footnote && Math.abs(line.size - layout.bodySize) <= layout.bodySize * 0.15));
+  if (bodyLines.length === 0) return [];
+  const bodyFont = dominantFont(bodyLines);
+
+  const candidates: HeadingCandidate[] = [];
+  layouts.forEach(layout => layout.lines.forEach((line, index) => {
+    if (line.footnote || !line.paragraphStart) return;
+    const larger = line.size >= layout.bodySize * 1.08;
+    const emphasized = line.fontName !== bodyFont && line.size >= layout.bodySize * 0.95;
+    const allCaps = line.text === line.text.toUpperCase() && /\p{Lu}{3}/u.test(line.text);
+    if (!larger && !emphasized && !allCaps) return;
+    // A heading stands on its own line: whatever follows starts a new paragraph
+    const next = layout.lines[index + 1];
+    if (next && !next.paragraphStart && next.size === line.size && next.fontName === line.fontName) return;
+
+    const text = line.text;
+    const arabic = text.match(ARABIC_HEADING);
+    const roman = text.match(ROMAN_HEADING);
+    const letter = text.match(LETTER_HEADING);
+    const add = (kind: HeadingCandidate['kind'], number?: string, title?: string) => {
+      if (isPlausibleTitle(title ?? text)) candidates.push({ line, pageNumber: layout.pageNumber, kind, number });
+    };
+    if (arabic) add('arabic', arabic[1], arabic[2]);
+    else if (roman) add('roman', roman[1], roman[2]);
+    else if (letter) add('letter', letter[1], letter[2]);
+    else if (NAMED_HEADING.test(text.replace(/^[\d.\s]+/, ''))) add('named');
+    else if (larger) add('styled');
+  }));
+
+  const entries: { title: string; level: 1 | 2; pageNumber: number; number?: string }[] = [];
+  const numbered = candidates.some(candidate => candidate.kind === 'arabic' || candidate.kind === 'roman');
+  let current = 0; // Number of the open top-level section
+  let sawRoman = false;
+
+  candidates.forEach(({ line, pageNumber, kind, number }) => {
+    if (kind === 'arabic' && number) {
+      const parts = number.split('.').map(Number);
+      if (parts.length === 1) {
+        // Sections count up one at a time (allowing for a missed heading)
+        if (parts[0] < current || parts[0] > current + 2) return;
+        current = parts[0];
+        entries.push({ title: line.text, level: 1, pageNumber, number });
+      } else if (parts.length === 2 && parts[0] === current) {
+        entries.push({ title: line.text, level: 2, pageNumber, number });
+      }
+    } else if (kind === 'roman' && number) {
+      sawRoman = true;
+      entries.push({ title: line.text, level: 1, pageNumber, number });
+    } else if (kind === 'letter' && sawRoman) {
+      entries.push({ title: line.text, level: 2, pageNumber, number });
+    } else if (kind === 'named') {
+      entries.push({ title: line.text, level: 1, pageNumber });
+    } else if (kind === 'styled' && !numbered) {
+      entries.push({ title: line.text, level: 1, pageNumber });
+    }
+  });
+
+  // Without numbering, unnamed headings before the first named one are the title block
+  const firstNamed = entries.findIndex(entry => NAMED_HEADING.test(entry.title));
+  const kept = !numbered && firstNamed > 0 ? entries.slice(firstNamed) : entries;
+
+  const sections = toSections(kept, 'layout');
+  return sections.filter(section => section.level === 1).length >= MIN_TOP_LEVEL_SECTIONS ? sections : [];
+};
+
+// The author's bookmarks are exact when present; otherwise fall back to the headings found in the layout
+export const buildSectionSkeleton = (outline: OutlineEntry[], layouts: PageLayout[]): DocumentSection[] => {
+  const fromOutline = sectionsFromOutline(outline);
+  return fromOutline.length > 0 ? fromOutline : detectSections(layouts);
+};
@@ -0,0 +1,70 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'scholarmind';
+const DB_VERSION = 3;
+
+export const STORES = {
+  papers: 'papers', // LibraryPaper metadata, cheap to list
+  paperContents: 'paperContents', // PDF bytes, extracted text and analysis, loaded on demand
+  analysisCache: 'analysisCache', // Analysis results keyed by PDF hash + prompt/model/language
+  annotations: 'annotations' // User highlights and notes, indexed by documentId
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each version only adds what it introduced, so older databases upgrade step by step
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(STORES.papers, { keyPath: 'id' });
+        db.createObjectStore(STORES.paperContents, { keyPath: 'id' });
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(STORES.analysisCache, { keyPath: 'key' });
+      }
+      if (event.oldVersion < 3) {
+        const annotations = db.createObjectStore(STORES.annotations, { keyPath: 'id' });
+        annotations.createIndex('documentId', 'documentId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Failed to open the local database."));
+  });
+
+  // Allow a retry after a failure instead of caching the rejection forever
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"));
+  });
+
+// Hex-encoded SHA-256, used as the content address of a PDF
+export const hashBytes = async (data: ArrayBuffer | Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
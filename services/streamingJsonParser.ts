@@ -0,0 +1,109 @@
+// Incremental scanner for streamed JSON objects of the shape
+//   { "someText": "...", "someList": [ {...}, {...} ], ... }
+// It surfaces top-level string fields (even while still being written) and every
+// object inside a top-level array as soon as its closing brace arrives.
+
+export interface StreamedJSONUpdate {
+  strings: Record<string, string>; // Top-level string fields, the last one possibly partial
+  newItems: { key: string; value: any }[]; // Array elements completed by this fragment
+}
+
+export interface StreamingJSONParser {
+  push: (fragment: string) => StreamedJSONUpdate;
+  text: () => string; // Everything received so far
+}
+
+// Decode the raw (still escaped) contents of an unterminated JSON string
+const decodePartialString = (raw: string): string => {
+  // Drop a dangling escape sequence that was cut in half
+  const safe = raw.replace(/\\u[0-9a-fA-F]{0,3}$/, '').replace(/\\$/, '');
+  try {
+    return JSON.parse(`"${safe}"`);
+  } catch (e) {
+    return safe;
+  }
+};
+
+export const createStreamingJSONParser = (): StreamingJSONParser => {
+  let buffer = '';
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expectingKey = false;
+  let currentKey: string | null = null;
+  let arrayKey: string | null = null;
+  let stringStart = -1;
+  let itemStart = -1;
+  const strings: Record<string, string> = {};
+
+  const push = (fragment: string): StreamedJSONUpdate => {
+    buffer += fragment;
+    const newItems: { key: string; value: any }[] = [];
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1 && stringStart >= 0) {
+            const value = JSON.parse(buffer.slice(stringStart, position + 1));
+            if (expectingKey) {
+              currentKey = value;
+              expectingKey = false;
+            } else if (currentKey) {
+              strings[currentKey] = value;
+            }
+          }
+          stringStart = -1;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          inString = true;
+          if (depth === 1) stringStart = position;
+          break;
+        case '{':
+        case '[':
+          depth++;
+          if (depth === 1) expectingKey = char === '{';
+          else if (depth === 2 && char === '[') arrayKey = currentKey;
+          else if (depth === 3 && char === '{' && arrayKey) itemStart = position;
+          break;
+        case '}':
+        case ']':
+          if (depth === 3 && char === '}' && itemStart >= 0 && arrayKey) {
+            try {
+              newItems.push({ key: arrayKey, value: JSON.parse(buffer.slice(itemStart, position + 1)) });
+            } catch (e) {
+              console.warn("Skipping malformed streamed item");
+            }
+            itemStart = -1;
+          }
+          depth--;
+          if (depth === 1) arrayKey = null;
+          break;
+        case ',':
+          if (depth === 1) expectingKey = true;
+          break;
+      }
+    }
+
+    // Expose the string that is still being written so text can render as it streams
+    const snapshot = { ...strings };
+    if (inString && depth === 1 && !expectingKey && currentKey && stringStart >= 0) {
+      snapshot[currentKey] = decodePartialString(buffer.slice(stringStart + 1));
+    }
+
+    return { strings: snapshot, newItems };
+  };
+
+  return { push, text: () => buffer };
+};
@@ -0,0 +1,212 @@
+import { TextContentItem } from '../types';
+
+// Character range inside one text item of a page
+export interface ItemRange {
+  itemIndex: number;
+  start: number; // Offset into item.str
+  end: number; // Exclusive
+}
+
+// One occurrence of a search term on a page, with the normalized text around it
+export interface TermMatch {
+  ranges: ItemRange[];
+  before: string;
+  after: string;
+}
+
+export interface TextMatch {
+  start: number; // Offset into the searched text
+  end: number; // Exclusive
+  distance: number; // Edit distance between the quote and the matched text (0 = exact)
+}
+
+export interface PageTextIndex {
+  text: string; // All items concatenated in content-stream order
+  items: { start: number; end: number }[]; // Where each item's str sits inside `text`
+}
+
+// Share of the quote's length that may differ (OCR noise, model paraphrasing a word or two)
+const MAX_ERROR_RATE = 0.15;
+// Very short quotes match too many places to be meaningful
+const MIN_QUOTE_LENGTH = 4;
+// Raw characters around a term match kept as its context; about a search snippet's radius
+const TERM_CONTEXT_CHARS = 40;
+
+interface NormalizedText {
+  chars: string; // Lowercased letters and digits only
+  origin: number[]; // For every normalized char, the offset in the source string it came from
+}
+
+// Reduce text to comparable letters/digits: expands ligatures (ﬁ → fi) via NFKD, strips
+// accents, case, whitespace, punctuation and hyphens — which also removes line-break hyphenation
+const normalizeWithOrigins = (text: string): NormalizedText => {
+  let chars = '';
+  const origin: number[] = [];
+  let offset = 0;
+
+  for (const char of text) {
+    const folded = char.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+    for (const c of folded) {
+      if (/[\p{L}\p{N}]/u.test(c)) {
+        chars += c;
+        origin.push(offset);
+      }
+    }
+    offset += char.length;
+  }
+
+  return { chars, origin };
+};
+
+export const normalizeForMatching = (text: string): string => normalizeWithOrigins(text).chars;
+
+// Approximate substring search (Sellers' algorithm): the best-matching window of `haystack`
+// for the whole `needle`, tracking where each candidate window started.
+const approximateSearch = (haystack: string, needle: string, maxDistance: number): { start: number; end: number; distance: number } | null => {
+  const m = needle.length;
+  let previous = new Array<number>(m + 1);
+  let previousStart = new Array<number>(m + 1);
+  for (let i = 0; i <= m; i++) {
+    previous[i] = i;
+    previousStart[i] = 0;
+  }
+
+  let best: { start: number; end: number; distance: number } | null = null;
+
+  for (let j = 1; j <= haystack.length; j++) {
+    const current = new Array<number>(m + 1);
+    const currentStart = new Array<number>(m + 1);
+    current[0] = 0; // A match may begin anywhere in the haystack
+    currentStart[0] = j;
+
+    for (let i = 1; i <= m; i++) {
+      const substitution = previous[i - 1] + (needle[i - 1] === haystack[j - 1] ? 0 : 1);
+      const deletion = previous[i] + 1; // Extra char in haystack
+      const insertion = current[i - 1] + 1; // Missing char in haystack
+
+      if (substitution <= deletion && substitution <= insertion) {
+        current[i] = substitution;
+        currentStart[i] = previousStart[i - 1];
+      } else if (deletion <= insertion) {
+        current[i] = deletion;
+        currentStart[i] = previousStart[i];
+      } else {
+        current[i] = insertion;
+        currentStart[i] = currentStart[i - 1];
+      }
+    }
+
+    if (current[m] <= maxDistance && (!best || current[m] < best.distance)) {
+      best = { start: currentStart[m], end: j, distance: current[m] };
+      if (best.distance === 0) break;
+    }
+    previous = current;
+    previousStart = currentStart;
+  }
+
+  return best;
+};
+
+// Locate `quote` inside `text`, tolerant of whitespace, hyphenation, ligatures and small differences
+export const alignQuote = (text: string, quote: string): TextMatch | null => {
+  const target = normalizeWithOrigins(text);
+  const needle = normalizeForMatching(quote);
+  if (needle.length < MIN_QUOTE_LENGTH || target.chars.length === 0) return null;
+
+  const toSourceRange = (start: number, end: number): { start: number; end: number } => {
+    const last = target.origin[end - 1];
+    // Extend to the end of the (possibly multi-unit) source character
+    const lastChar = String.fromCodePoint(text.codePointAt(last) || 0);
+    return { start: target.origin[start], end: last + lastChar.length };
+  };
+
+  const exact = target.chars.indexOf(needle);
+  if (exact >= 0) {
+    return { ...toSourceRange(exact, exact + needle.length), distance: 0 };
+  }
+
+  const maxDistance = Math.max(1, Math.floor(needle.length * MAX_ERROR_RATE));
+  const approximate = approximateSearch(target.chars, needle, maxDistance);
+  if (!approximate || approximate.end <= approximate.start) return null;
+
+  return { ...toSourceRange(approximate.start, approximate.end), distance: approximate.distance };
+};
+
+// Concatenate a page's text items, remembering where each one lives in the combined string
+export const buildPageTextIndex = (items: TextContentItem[]): PageTextIndex => {
+  let text = '';
+  const ranges: { start: number; end: number }[] = [];
+
+  items.forEach((item, index) => {
+    if (index > 0) {
+      const previous = items[index - 1];
+      // Separators only matter for readability; matching ignores whitespace anyway
+      text += previous.hasEOL ? '\n' : ' ';
+    }
+    const start = text.length;
+    text += item.str || '';
+    ranges.push({ start, end: text.length });
+  });
+
+  return { text, items: ranges };
+};
+
+// The parts of each item a span of the combined page text covers
+const toItemRanges = (index: PageTextIndex, match: { start: number; end: number }): ItemRange[] => {
+  const ranges: ItemRange[] = [];
+  index.items.forEach((range, itemIndex) => {
+    const start = Math.max(range.start, match.start);
+    const end = Math.min(range.end, match.end);
+    if (end > start) {
+      ranges.push({ itemIndex, start: start - range.start, end: end - range.start });
+    }
+  });
+  return ranges;
+};
+
+// Match a quote against the items of one page and return the exact character ranges to highlight
+export const findQuoteInItems = (items: TextContentItem[], quote: string): { ranges: ItemRange[]; distance: number } | null => {
+  const index = buildPageTextIndex(items);
+  const match = alignQuote(index.text, quote);
+  if (!match) return null;
+
+  const ranges = toItemRanges(index, match);
+  return ranges.length > 0 ? { ranges, distance: match.distance } : null;
+};
+
+// Every exact occurrence of `term` in `text`, ignoring case, accents, whitespace, punctuation and hyphenation
+export const findAllMatches = (text: string, term: string): { start: number; end: number }[] => {
+  const target = normalizeWithOrigins(text);
+  const needle = normalizeForMatching(term);
+  if (!needle) return [];
+
+  const matches: { start: number; end: number }[] = [];
+  for (let at = target.chars.indexOf(needle); at >= 0; at = target.chars.indexOf(needle, at + needle.length)) {
+    const last = target.origin[at + needle.length - 1];
+    const lastChar = String.fromCodePoint(text.codePointAt(last) || 0);
+    matches.push({ start: target.origin[at], end: last + lastChar.length });
+  }
+  return matches;
+};
+
+// Occurrences of a search term on one page, each as the item ranges to highlight, in content-stream order.
+// The context lets a hit found in the composed page text (other order, no running headers) be matched back
+export const findTermInItems = (items: TextContentItem[], term: string): TermMatch[] => {
+  const index = buildPageTextIndex(items);
+  return findAllMatches(index.text, term)
+    .map(match => ({
+      ranges: toItemRanges(index, match),
+      before: normalizeForMatching(index.text.slice(Math.max(0, match.start - TERM_CONTEXT_CHARS), match.start)),
+      after: normalizeForMatching(index.text.slice(match.end, match.end + TERM_CONTEXT_CHARS))
+    }))
+    .filter(match => match.ranges.length > 0);
+};
+
+// Pages to try when the model's page number is off: the given page first, then outwards
+export const neighborPageOrder = (pageNumber: number, numPages: number, radius: number = 2): number[] => {
+  const order = [pageNumber];
+  for (let offset = 1; offset <= radius; offset++) {
+    order.push(pageNumber + offset, pageNumber - offset);
+  }
+  return order.filter(page => page >= 1 && page <= numPages);
+};
@@ -0,0 +1,82 @@
+import { ExtractedPage, MindMapData, MindMapNode, VerificationStats } from '../types';
+import { flattenNodes } from './mindMapTree';
+import { alignQuote, neighborPageOrder, normalizeForMatching } from './textAlignment';
+
+interface IndexedPage {
+  page: ExtractedPage;
+  normalized: string;
+}
+
+// Find the page a quote really occurs on. Exact (normalized) matches are cheap, so every page is
+// searched for those; the fuzzy search only runs around the page the model suggested.
+const locateQuote = (quote: string, suggestedPage: number, pages: IndexedPage[]): number | null => {
+  const needle = normalizeForMatching(quote);
+  if (!needle) return null;
+
+  const byNumber = new Map(pages.map(entry => [entry.page.pageNumber, entry]));
+  const nearby = neighborPageOrder(suggestedPage, Math.max(...pages.map(entry => entry.page.pageNumber)))
+    .map(pageNumber => byNumber.get(pageNumber))
+    .filter((entry): entry is IndexedPage => !!entry);
+
+  const exact = [...nearby, ...pages].find(entry => entry.normalized.includes(needle));
+  if (exact) return exact.page.pageNumber;
+
+  const fuzzy = nearby.find(entry => alignQuote(entry.page.text, quote));
+  return fuzzy ? fuzzy.page.pageNumber : null;
+};
+
+const indexPages = (pages: ExtractedPage[]): IndexedPage[] => pages
+  .filter(({ text }) => text.trim())
+  .map(page => ({ page, normalized: normalizeForMatching(page.text) }));
+
+// Page on which a single quote occurs, or null when it isn't in the text
+export const findQuotePage = (quote: string, suggestedPage: number, pages: ExtractedPage[]): number | null => {
+  const indexed = indexPages(pages);
+  return indexed.length > 0 ? locateQuote(quote, suggestedPage, indexed) : null;
+};
+
+// Tally the flags verifyMindMap left on the nodes, so the stats can follow later edits to the tree
+export const countVerification = (root: MindMapNode): VerificationStats => {
+  const stats: VerificationStats = { checked: 0, verified: 0, corrected: 0, unverified: 0 };
+  for (const node of flattenNodes(root)) {
+    if (node.verified === undefined || !node.quote?.trim()) continue;
+    stats.checked++;
+    if (!node.verified) stats.unverified++;
+    else if (node.originalPageNumber !== undefined) stats.corrected++;
+    else stats.verified++;
+  }
+  return stats;
+};
+
+// Check every node's quote against the extracted text, moving pageNumber to where the quote
+// actually occurs and flagging quotes that could not be found at all
+export const verifyMindMap = (data: MindMapData, pages: ExtractedPage[]): MindMapData => {
+  const indexed = indexPages(pages);
+  const stats: VerificationStats = { checked: 0, verified: 0, corrected: 0, unverified: 0 };
+
+  const visit = (node: MindMapNode): MindMapNode => {
+    const children = node.children?.map(visit);
+    if (!node.quote?.trim() || indexed.length === 0) {
+      return { ...node, children };
+    }
+
+    stats.checked++;
+    const { originalPageNumber, ...rest } = node;
+    const suggested = originalPageNumber ?? node.pageNumber;
+    const found = locateQuote(node.quote, suggested, indexed);
+
+    if (found === null) {
+      stats.unverified++;
+      return { ...rest, pageNumber: suggested, verified: false, children };
+    }
+    if (found !== suggested) {
+      stats.corrected++;
+      return { ...rest, pageNumber: found, originalPageNumber: suggested, verified: true, children };
+    }
+    stats.verified++;
+    return { ...rest, pageNumber: found, verified: true, children };
+  };
+
+  const root = visit(data.root);
+  return { ...data, root, verification: stats };
+};
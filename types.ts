@@ -5,38 +5,281 @@ export interface MindMapNode {
   summary: string; // Brief explanation
   quote?: string; // Verbatim quote from the text
   pageNumber: number; // The page in the PDF where this concept is found
+  verified?: boolean; // Whether the quote was found in the extracted text (undefined = not checked)
+  originalPageNumber?: number; // The model's page guess, kept when verification moved the node
+  figureIds?: string[]; // Figures and tables the node discusses (PaperFigure ids)
   children?: MindMapNode[];
-  // Layout properties
-  width?: number;
-  height?: number;
-  x?: number;
-  y?: number;
 }
 
 export interface MindMapData {
   root: MindMapNode;
   markdownSummary: string; // Abstract
   researchReport: string; // Future research directions
+  generatedBy?: string; // Label of the LLM provider that produced this analysis
+  language?: OutputLanguage;
+  coverage?: PageCoverage;
+  verification?: VerificationStats;
+  editedAt?: number; // Set once the user has changed the tree by hand
+}
+
+// Manual changes to the mind map tree, applied by mindMapEditor and undoable as a unit
+export type MindMapEdit =
+  | { type: 'update'; id: string; changes: Partial<Pick<MindMapNode, 'label' | 'summary'>> }
+  | { type: 'add'; parentId: string; node: MindMapNode }
+  | { type: 'delete'; id: string }
+  | { type: 'move'; id: string; parentId: string; index?: number } // Reparent; appended when index is omitted
+  | { type: 'reorder'; id: string; offset: number } // Shift among siblings, e.g. -1 = up
+  | { type: 'replace'; id: string; node: MindMapNode }; // Swap in a regenerated subtree
+
+// 'expand' adds finer-grained children to a node, 'regenerate' rebuilds its summary and children
+export type SubtreeMode = 'expand' | 'regenerate';
+
+// Outcome of checking node quotes against the extracted page text
+export interface VerificationStats {
+  checked: number; // Nodes that carried a quote
+  verified: number; // Found on the page the model named
+  corrected: number; // Found, but on a different page
+  unverified: number; // Not found anywhere in the extracted text
+}
+
+// How much of the document actually reached the model
+export interface PageCoverage {
+  analyzedPages: number; // Pages with extractable text that were sent for analysis
+  totalPages: number;
+  chunks: number; // 1 for single-pass analysis, >1 when map-reduce was used
+}
+
+export interface ExtractedPage {
+  pageNumber: number;
+  text: string;
+}
+
+// Document information dictionary written by the authoring tool (often empty or wrong)
+export interface PdfInfo {
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creationDate?: string; // PDF date string, e.g. "D:20200115093000Z"
+}
+
+export interface ExtractedDocument {
+  numPages: number;
+  pages: ExtractedPage[];
+  text: string; // All pages joined with "--- PAGE n START/END ---" markers
+  info?: PdfInfo;
+  figures?: PaperFigure[]; // Captioned figures and tables, in page order
+  sections?: DocumentSection[]; // Section skeleton read from bookmarks or heading layout, in reading order
+  ocrPages?: OcrPage[]; // Scanned pages whose text was recognized from the rendered image
+}
+
+// Recognized words of a page without a text layer, positioned like pdf.js text items so the viewer can highlight them
+export interface OcrPage {
+  pageNumber: number;
+  items: TextContentItem[];
 }
 
 export interface ProcessingStatus {
   step: 'idle' | 'extracting' | 'analyzing' | 'complete' | 'error';
   message?: string;
+  progress?: ProcessingProgress;
+}
+
+// Real progress counters reported while extracting and streaming the analysis
+export interface ProcessingProgress {
+  pagesExtracted?: number;
+  totalPages?: number;
+  nodesReceived?: number;
+  chunk?: number; // 1-based index of the page range being analyzed
+  totalChunks?: number;
 }
 
 export type EdgeType = 'default' | 'straight' | 'step' | 'smoothstep' | 'simplebezier';
 export type FontSize = 'small' | 'medium' | 'large';
+// horizontal: left-to-right tree; vertical: top-down tree; balanced: branches on both sides of the root
+export type MindMapLayout = 'horizontal' | 'vertical' | 'radial' | 'balanced';
+// Side of a node card an edge leaves from or arrives at
+export type HandleSide = 'left' | 'right' | 'top' | 'bottom';
 
 export interface MindMapOptions {
   edgeType: EdgeType;
   fontSize: FontSize;
+  layout: MindMapLayout;
+}
+
+// --- LLM Provider Layer ---
+export type LLMProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  model?: string; // Falls back to the provider's default model
+  baseUrl?: string; // OpenAI-compatible servers only, e.g. http://localhost:8000/v1
+  apiKey?: string;
+}
+
+// Provider-neutral subset of JSON Schema used to constrain structured output
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  required?: string[];
+  propertyOrdering?: string[]; // Order in which fields are generated (matters for streaming)
+}
+
+export interface LLMRequest {
+  task: string; // Identifies the prompt (e.g. 'mindmap'), used by the fixture provider
+  systemInstruction: string;
+  contents: string;
+  responseSchema: ResponseSchema;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  endpoint?: string; // Server the requests go to, for providers that can point at different ones
+  label: string; // Human readable name shown in the UI
+  generateJSON: (request: LLMRequest) => Promise<string>; // Raw JSON text
+  streamJSON: (request: LLMRequest) => AsyncIterable<string>; // Raw JSON text, delivered in fragments
+}
+
+// --- Annotations ---
+// Rectangle of a user highlight as fractions of the page size, so it survives zooming
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A highlight (and optional margin note) the user made on the PDF
+export interface Annotation {
+  id: string;
+  documentId: string; // Library id (content hash) of the PDF
+  pageNumber: number;
+  text: string; // The selected text
+  note: string;
+  color: string;
+  rects: AnnotationRect[];
+  nodeId?: string; // Mind map node the highlight is linked to
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AnnotationDraft = Pick<Annotation, 'pageNumber' | 'text' | 'color' | 'rects'>;
+
+// --- Local Library ---
+export interface LibraryPaper {
+  id: string; // SHA-256 of the PDF bytes
+  title: string;
+  fileName: string;
+  fileSize: number;
+  numPages: number;
+  addedAt: number; // Epoch ms
+  lastOpenedAt: number;
+}
+
+export interface LibraryPaperContents {
+  id: string;
+  pdfData: ArrayBuffer;
+  document: ExtractedDocument;
+  data: MindMapData;
+  profile?: PaperProfile; // Comparison answers, kept so comparisons don't query the model again
+  concepts?: PaperConcepts; // Key concepts, kept for the cross-paper concept graph
+  metadata?: PaperMetadata; // Bibliographic record, kept apart from the map so undo doesn't touch it
+}
+
+// Views that work on several library papers at once
+export type WorkspaceKind = 'compare' | 'concepts';
+
+// --- Multi-paper Comparison ---
+export type ComparisonDimension = 'problem' | 'method' | 'datasets' | 'metrics' | 'results' | 'limitations';
+
+export interface ComparisonCell {
+  text: string;
+  pageNumber?: number; // Where the supporting quote occurs
+  quote?: string;
+  verified?: boolean; // Whether the quote was found in the extracted text
+}
+
+// One paper's answer for every comparison dimension
+export interface PaperProfile {
+  version: number; // Prompt version, so stale profiles are regenerated
+  language: OutputLanguage;
+  generatedBy: string;
+  cells: Record<ComparisonDimension, ComparisonCell>;
+}
+
+export interface ComparisonColumn {
+  paperId: string;
+  title: string;
+  numPages: number;
+  profile: PaperProfile | null; // Null while loading or after a failure
+  error?: string;
+}
+
+// --- Analysis Cache ---
+export interface AnalysisCacheEntry {
+  key: string;
+  paperId: string; // SHA-256 of the PDF bytes
+  provider: LLMProviderId;
+  model: string;
+  endpoint?: string;
+  language: OutputLanguage;
+  ocrLanguage?: string; // Missing on entries cached before the OCR language was a setting
+  promptVersion: number;
+  document: ExtractedDocument;
+  data: MindMapData;
+  size: number; // Approximate serialized size in bytes
+  createdAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  totalBytes: number;
+  hits: number;
+  misses: number;
+}
+
+export type OutputLanguage = 'zh-CN' | 'en' | 'de' | 'original';
+
+export interface AnalysisOptions {
+  provider?: LLMProvider;
+  language?: OutputLanguage;
+  onProgress?: (message: string, progress?: ProcessingProgress) => void;
+  onPartialResult?: (data: MindMapData) => void; // Called as streamed nodes arrive
+}
+
+// --- Ask (grounded Q&A) ---
+export interface ChatCitation {
+  marker: number; // The [n] the answer uses for it: its 1-based position in the model's list
+  pageNumber: number;
+  quote: string; // Text the model quoted from that page
+  verified: boolean; // Whether the quote was found in the extracted text
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  citations?: ChatCitation[];
 }
 
-export type TabMode = 'map' | 'outline' | 'abstract' | 'report';
+export type TabMode = 'map' | 'outline' | 'abstract' | 'report' | 'ask' | 'references' | 'figures';
 
 export interface PDFDocumentProxy {
   numPages: number;
   getPage: (pageNumber: number) => Promise<PDFPageProxy>;
+  getMetadata: () => Promise<{ info: Record<string, unknown> }>;
+  getOutline: () => Promise<PDFOutlineItem[] | null>;
+  getDestination: (id: string) => Promise<unknown[] | null>;
+  getPageIndex: (ref: unknown) => Promise<number>; // Zero-based
+}
+
+// Bookmark of the PDF's own outline; `dest` is a named destination or an explicit [pageRef, ...] array
+export interface PDFOutlineItem {
+  title: string;
+  dest: string | unknown[] | null;
+  items: PDFOutlineItem[];
 }
 
 export interface PDFPageViewport {
@@ -88,4 +331,152 @@ declare global {
       };
     };
   }
-}
\ No newline at end of file
+}
+
+// --- Cross-paper Concept Graph ---
+export type ConceptKind = 'method' | 'dataset' | 'metric' | 'task' | 'term';
+
+export interface PaperConcept {
+  name: string; // As written in the paper, so it can be found in the text
+  kind: ConceptKind;
+  aliases: string[]; // Abbreviations and spelling variants
+}
+
+export interface PaperConcepts {
+  version: number; // Prompt version, so stale lists are regenerated
+  generatedBy: string;
+  concepts: PaperConcept[];
+}
+
+export interface ConceptMention {
+  paperId: string;
+  pages: number[]; // Pages whose text mentions the concept (may be empty if only the model named it)
+}
+
+// A concept merged across papers by name and aliases
+export interface Concept {
+  id: string;
+  name: string;
+  kind: ConceptKind;
+  aliases: string[];
+  mentions: ConceptMention[];
+}
+
+// --- References & Citations ---
+export type CitationStyle = 'numeric' | 'author-year';
+
+// One bibliography entry, parsed from the reference list
+export interface Reference {
+  id: string;
+  label: string; // How the body cites it: "[12]" or "Smith et al., 2020"
+  number?: number; // Position in a numbered list
+  raw: string; // Entry text as extracted
+  authors: string[];
+  title?: string;
+  venue?: string;
+  year?: string; // Including a disambiguating letter ("2020a")
+  doi?: string;
+  arxivId?: string;
+  pageNumber: number; // Page of the reference list the entry is on
+}
+
+// One in-text citation marker resolved to a reference
+export interface Citation {
+  referenceId: string;
+  pageNumber: number;
+  marker: string; // As written, e.g. "[3-5]" or "(Smith et al., 2020)"
+  context: string; // Text leading up to the marker, used to highlight it in the PDF
+}
+
+export interface ReferenceIndex {
+  style: CitationStyle;
+  startPage: number; // Page on which the reference list begins
+  references: Reference[];
+  citations: Citation[];
+}
+
+// --- Bibliographic Metadata ---
+export type PublicationType = 'article' | 'inproceedings' | 'preprint' | 'thesis' | 'book' | 'misc';
+
+export interface PaperMetadata {
+  type: PublicationType;
+  title: string;
+  authors: string[]; // As printed, e.g. "Ada Lovelace" or "Lovelace, Ada"
+  venue?: string; // Journal, conference, repository, school or publisher depending on the type
+  year?: string;
+  doi?: string;
+  arxivId?: string;
+  edited: boolean; // Corrected by the user rather than only extracted
+}
+
+// --- Figures & Tables ---
+export type FigureKind = 'figure' | 'table';
+
+// Area of a page as fractions of its width and height, measured from the top-left corner
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PaperFigure {
+  id: string; // "figure-3", "table-II"; suffixed with the page when a label repeats
+  kind: FigureKind;
+  number: string; // As printed: "3", "II"
+  label: string; // "Figure 3", "Table II"
+  caption: string; // Caption text after the label
+  pageNumber: number;
+  region: PageRegion; // Estimated extent of the figure or table together with its caption
+}
+
+// --- Section Skeleton ---
+export interface DocumentSection {
+  id: string; // "sec-3"; the model is told to reuse it for the section's node
+  parentId: string | null; // Level 2 sections point to their level 1 section
+  title: string; // As printed, e.g. "2.1 Methodology"
+  number?: string; // "2.1", "IV"
+  level: 1 | 2;
+  pageNumber: number;
+  source: 'outline' | 'layout'; // The PDF's bookmarks, or headings recognized by font and numbering
+}
+
+// --- Search ---
+// A match of the search box in the paper's text
+export interface PageSearchHit {
+  pageNumber: number;
+  occurrence: number; // Index among the matches on its page; the viewer emphasizes the match with the same index
+  snippet: string; // Text around the match
+  matchStart: number; // Where the match sits inside `snippet`
+  matchEnd: number;
+}
+
+export type NodeSearchField = 'label' | 'summary' | 'quote';
+
+// A match in a mind map node; a node is listed once, for its first matching field
+export interface NodeSearchHit {
+  nodeId: string;
+  label: string;
+  pageNumber: number;
+  quote?: string;
+  field: NodeSearchField;
+  snippet: string;
+  matchStart: number;
+  matchEnd: number;
+}
+
+export interface SearchResults {
+  query: string;
+  nodeHits: NodeSearchHit[];
+  pageHits: PageSearchHit[];
+  truncated: boolean; // More page matches exist than are listed
+}
+
+// The result the user stepped to; the PDF, the map and the outline all follow it
+export type ActiveSearchHit = { kind: 'page'; hit: PageSearchHit } | { kind: 'node'; hit: NodeSearchHit };
+
+// Matching nodes to mark in the map and the outline, and the one to bring into view
+export interface NodeSearchHighlight {
+  matchIds: Set<string>;
+  focusedId: string | null;
+}
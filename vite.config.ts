@@ -1,6 +1,42 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { OCR_ASSET_DIR, OCR_LANGUAGE_DATA } from './services/ocrAssets';
+
+// Tesseract's worker, WASM core (the LSTM builds it picks from by CPU features) and language data,
+// served by the app itself so OCR needs no CDN and works offline
+const ocrAssetFiles = (): Record<string, string> => ({
+  [`${OCR_ASSET_DIR}/worker.min.js`]: 'node_modules/tesseract.js/dist/worker.min.js',
+  ...Object.fromEntries(['lstm', 'simd-lstm', 'relaxedsimd-lstm'].map(build => [
+    `${OCR_ASSET_DIR}/core/tesseract-core-${build}.wasm.js`,
+    `node_modules/tesseract.js-core/tesseract-core-${build}.wasm.js`
+  ])),
+  ...Object.fromEntries(OCR_LANGUAGE_DATA.map(code => [
+    `${OCR_ASSET_DIR}/lang/${code}.traineddata.gz`,
+    `node_modules/@tesseract.js-data/${code}/4.0.0_best_int/${code}.traineddata.gz`
+  ]))
+});
+
+const ocrAssets = (): Plugin => {
+  const files = ocrAssetFiles();
+  return {
+    name: 'ocr-assets',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const file = files[(req.url || '').split('?')[0].replace(/^\//, '')];
+        if (!file) return next();
+        res.setHeader('Content-Type', file.endsWith('.js') ? 'text/javascript' : 'application/gzip');
+        fs.createReadStream(path.resolve(__dirname, file)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [fileName, file] of Object.entries(files)) {
+        this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(path.resolve(__dirname, file)) });
+      }
+    }
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +45,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ocrAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY)
       },
       resolve: {
         alias: {